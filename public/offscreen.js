@@ -0,0 +1,88 @@
+// Offscreen document used by the background worker to play timer sounds,
+// since service workers have no access to the Audio API
+let tickAudio = null;
+
+const stopTicking = () => {
+  if (tickAudio) {
+    tickAudio.pause();
+    tickAudio = null;
+  }
+};
+
+// Voices load in the background, so wait for them briefly on first use
+const loadVoices = () => new Promise(resolve => {
+  if (speechSynthesis.getVoices().length > 0) {
+    resolve(speechSynthesis.getVoices());
+    return;
+  }
+  
+  const done = () => {
+    speechSynthesis.removeEventListener('voiceschanged', done);
+    resolve(speechSynthesis.getVoices());
+  };
+  speechSynthesis.addEventListener('voiceschanged', done);
+  setTimeout(done, 1000);
+});
+
+const speak = async ({ text, voiceURI, rate }) => {
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.rate = typeof rate === 'number' ? rate : 1;
+  const voice = voiceURI && (await loadVoices()).find(v => v.voiceURI === voiceURI);
+  if (voice) utterance.voice = voice;
+  
+  speechSynthesis.cancel();
+  speechSynthesis.speak(utterance);
+};
+
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  if (message.target !== 'offscreen') {
+    return false;
+  }
+  
+  // The tick loops until focus stops; the worker resends it on every state
+  // change, so only a different sound or volume restarts it
+  if (message.action === 'startTicking') {
+    if (tickAudio && tickAudio.src === message.src) {
+      tickAudio.volume = message.volume;
+    } else {
+      stopTicking();
+      tickAudio = new Audio(message.src);
+      tickAudio.loop = true;
+      tickAudio.volume = message.volume;
+      tickAudio.play().catch(error => console.error('Error playing the tick:', error));
+    }
+    sendResponse({ success: true });
+    return false;
+  }
+  
+  if (message.action === 'speak') {
+    speak(message)
+      .then(() => sendResponse({ success: true }))
+      .catch(error => {
+        console.error('Error speaking:', error);
+        sendResponse({ success: false });
+      });
+    return true;
+  }
+  
+  if (message.action === 'stopTicking') {
+    stopTicking();
+    sendResponse({ success: true });
+    return false;
+  }
+  
+  if (message.action !== 'playSound') {
+    return false;
+  }
+  
+  const audio = new Audio(message.src);
+  audio.volume = typeof message.volume === 'number' ? message.volume : 0.7;
+  audio.play()
+    .then(() => sendResponse({ success: true }))
+    .catch(error => {
+      console.error('Error playing audio:', error);
+      sendResponse({ success: false });
+    });
+  
+  return true;
+});
@@ -0,0 +1,981 @@
+// Background service worker for the FocusFlow extension. It is built from
+// this file by vite.background.config.ts and shares the timer, settings and
+// history logic with the app, so both always behave the same.
+
+import {
+  InterruptionReason,
+  SessionRecord,
+  SoundCue,
+  SoundCueSettings,
+  SpeechCue,
+  TimerCommand,
+  TimerEvent,
+  TimerEventLogEntry,
+  TimerMode,
+  TimerSettings,
+  TimerState
+} from "@/types";
+import { Tab } from "@/types/chrome";
+import { format } from "date-fns";
+import { SETTINGS_VERSION, formatTime, getOvertimeSeconds, getRemainingSeconds, getSnoozesLeft } from "@/utils/timerUtils";
+import { normalizeSettings } from "@/utils/settingsSchema";
+import { SETTINGS_KEY } from "@/utils/settingsStorage";
+import { TimerAnnouncement, createInitialTimerState, transition } from "@/utils/timerMachine";
+import { MAX_TIMER_EVENTS, TIMER_EVENTS_KEY } from "@/utils/timerEventLog";
+import {
+  DAILY_FOCUS_KEY,
+  MAX_SESSION_RECORDS,
+  SESSION_HISTORY_KEY,
+  trimSessionRecords
+} from "@/utils/sessionHistory";
+import { getDailyFocusTotals, getDailyGoalProgress, isGoalMetToday, recordGoalMet } from "@/utils/goalUtils";
+import { isStartOfWorkDay, isWithinWorkingHours } from "@/utils/scheduleUtils";
+import { SHORTCUT_EXTEND_MINUTES, defaultShortcuts } from "@/utils/shortcutUtils";
+import { TASKS_KEY } from "@/utils/taskStorage";
+import { CHAT_CONVERSATIONS_KEY } from "@/utils/chatStorage";
+import { validateBackupData } from "@/utils/backupUtils";
+import {
+  CUSTOM_SOUND_PREFIX,
+  getSoundSource,
+  readStoredSounds,
+  removeStoredSound,
+  replaceStoredSounds,
+  toSoundInfo,
+  writeStoredSound
+} from "@/utils/soundUtils";
+import {
+  NOTIFICATION_SNOOZE_MINUTES,
+  NotificationActionId,
+  TimerNotification,
+  getPhaseNotification
+} from "@/utils/notificationUtils";
+import { ONE_MINUTE_WARNING_SECONDS, fillSpeechTemplate, getPhaseSpeech } from "@/utils/speechUtils";
+
+const TIMER_STATE_KEY = "focusflow_timer_state";
+const TIMER_LAST_UPDATE_KEY = "focusflow_timer_last_update";
+const SETTINGS_LAST_UPDATE_KEY = "focusflow_settings_last_update";
+const PHASE_ALARM = "focusflow_phase_end";
+
+// Sends a message to every tab; tabs without the content script are skipped
+const sendToTabs = (message: Record<string, unknown>, exceptTabId?: number) => {
+  chrome.tabs.query({}, (tabs: Tab[]) => {
+    tabs.forEach((tab) => {
+      if (tab.id && tab.id !== exceptTabId) {
+        chrome.tabs.sendMessage(tab.id, message).catch(() => {
+          // Ignore errors from tabs where content script isn't running
+        });
+      }
+    });
+  });
+};
+
+chrome.runtime.onInstalled.addListener((details) => {
+  console.log(`FocusFlow extension ${details.reason === "update" ? "updated" : "installed"}`);
+
+  // Seed default settings, or bring stored ones up to the current schema,
+  // then start in focus mode with the focus length from those settings
+  migrateStoredSettings()
+    .then(seedTimerState)
+    .then(() => loadTimerContext())
+    // An update restarts the worker and clears the badge of a running timer
+    .then(({ state }) => updateActionBadge(state))
+    .catch((error) => console.error("Error initializing the timer:", error));
+});
+
+const seedTimerState = async () => {
+  const result = await chrome.storage.local.get([TIMER_STATE_KEY, SETTINGS_KEY]);
+  if (result[TIMER_STATE_KEY]) return;
+
+  const { settings } = normalizeSettings(result[SETTINGS_KEY]);
+  await chrome.storage.local.set({ [TIMER_STATE_KEY]: createInitialTimerState(settings) });
+};
+
+// Cache to track recent messages to avoid duplicates
+const messageCache = new Map<string, boolean>();
+const CACHE_EXPIRY_MS = 2000; // 2 seconds
+
+// Relay messages between tabs for state synchronization
+chrome.runtime.onMessage.addListener((message, sender) => {
+  // Skip processing if this isn't a stateChange action
+  if (message.action !== "stateChange") {
+    return false;
+  }
+
+  // Check message cache to prevent duplicate processing
+  const messageId = `${message.action}-${message.key}-${message.tabId}-${message.timestamp}`;
+  if (messageCache.has(messageId)) {
+    return false;
+  }
+
+  // Add to cache with expiry
+  messageCache.set(messageId, true);
+  setTimeout(() => messageCache.delete(messageId), CACHE_EXPIRY_MS);
+
+  // Forward the message to all other tabs
+  sendToTabs(message, sender.tab?.id);
+
+  // Only relayed: the timer state and the settings are written by this worker
+  // alone, so a tab echoing an old value can not overwrite a newer one
+  return false;
+});
+
+// Handle audio playback coordination with improved performance
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  if (message.action !== "playAudio") return false;
+
+  // Store which tab is playing the audio
+  chrome.storage.local.set({
+    audio_playing: {
+      tabId: sender.tab?.id,
+      audioType: message.audioType,
+      timestamp: Date.now(),
+    },
+  });
+
+  sendResponse({ allowed: true });
+  return false;
+});
+
+// Clean up old audio flags more frequently
+setInterval(() => {
+  const ONE_MINUTE = 60 * 1000;
+
+  chrome.storage.local.get(["audio_playing"], (result) => {
+    if (result.audio_playing && Date.now() - result.audio_playing.timestamp > ONE_MINUTE) {
+      chrome.storage.local.remove("audio_playing");
+    }
+  });
+
+  // Also clean up any audio_playing_* flags
+  chrome.storage.local.get(null, (items) => {
+    const audioKeys = Object.keys(items).filter((key) =>
+      key.startsWith("audio_playing_") &&
+      items[key]?.timestamp &&
+      Date.now() - items[key].timestamp > ONE_MINUTE
+    );
+
+    if (audioKeys.length > 0) {
+      chrome.storage.local.remove(audioKeys);
+    }
+  });
+}, 1 * 60 * 1000); // Run every minute instead of 5 minutes
+
+// Add a listener for when a new tab is created to ensure timer state is propagated
+chrome.tabs.onCreated.addListener(() => {
+  // Get the latest timer state and broadcast it to all tabs
+  chrome.storage.local.get([TIMER_STATE_KEY, SETTINGS_KEY], (result) => {
+    if (!result[TIMER_STATE_KEY]) return;
+
+    broadcastTimerState(result[TIMER_STATE_KEY]);
+
+    // Also send settings
+    if (result[SETTINGS_KEY]) {
+      sendToTabs({
+        action: "stateChange",
+        key: SETTINGS_KEY,
+        value: result[SETTINGS_KEY],
+        timestamp: Date.now(),
+        tabId: "background",
+      });
+    }
+  });
+});
+
+// Settings are only written here. Tabs see the change through
+// chrome.storage.onChanged, so it is not broadcast separately.
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  if (message.action !== "updateSettings") return false;
+
+  // Tabs running an older build may still send legacy values, which are
+  // migrated, but anything that is not settings at all is refused rather than
+  // replacing the user's settings with the defaults
+  const { settings, repaired } = normalizeSettings(message.settings);
+  if (repaired.includes("settings")) {
+    sendResponse({ success: false, error: "Invalid settings" });
+    return false;
+  }
+  if (repaired.length > 0) {
+    console.warn(`Repaired invalid settings: ${repaired.join(", ")}`);
+  }
+
+  // The goal streak is only extended here, so a tab that has not seen the
+  // latest one cannot put it back
+  chrome.storage.local.get([SETTINGS_KEY])
+    .then(async (result) => {
+      const stored = result[SETTINGS_KEY] ? normalizeSettings(result[SETTINGS_KEY]).settings : null;
+      const nextSettings = stored ? { ...settings, goalStreak: stored.goalStreak } : settings;
+      await chrome.storage.local.set({
+        [SETTINGS_KEY]: nextSettings,
+        [SETTINGS_LAST_UPDATE_KEY]: Date.now(),
+      });
+      sendResponse({ success: true, settings: nextSettings });
+    })
+    .catch((error) => sendResponse({ success: false, error: String(error) }));
+  return true;
+});
+
+// A restored backup replaces the stored data in one write, so the settings are
+// still only written here and a failure leaves everything as it was. Uploads
+// live in IndexedDB, so they go first and are put back if the rest fails.
+const restoreBackup = async (payload: unknown) => {
+  const data = validateBackupData(payload);
+  const sessions = trimSessionRecords(data.sessions);
+  const previousSounds = await readStoredSounds();
+
+  await replaceStoredSounds(data.customSounds);
+  try {
+    await chrome.storage.local.set({
+      [SETTINGS_KEY]: data.settings,
+      [SETTINGS_LAST_UPDATE_KEY]: Date.now(),
+      [SESSION_HISTORY_KEY]: sessions,
+      [DAILY_FOCUS_KEY]: getDailyFocusTotals(sessions),
+      [TASKS_KEY]: data.tasks,
+      [CHAT_CONVERSATIONS_KEY]: data.chatConversations,
+    });
+  } catch (error) {
+    await replaceStoredSounds(previousSounds);
+    throw error;
+  }
+};
+
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  if (message.action !== "restoreBackup") return false;
+
+  restoreBackup(message.data)
+    .then(() => sendResponse({ success: true }))
+    .catch((error) => {
+      console.error("Error restoring backup:", error);
+      sendResponse({ success: false, error: String(error) });
+    });
+  return true;
+});
+
+// ---------------------------------------------------------------------------
+// Timer ownership
+//
+// This worker is the only place where the timer state changes. Tabs send
+// commands and render whatever state is pushed back, and phase completions
+// are driven by chrome.alarms so they fire exactly once, even with no page
+// open. The transitions themselves come from src/utils/timerMachine.ts.
+// ---------------------------------------------------------------------------
+
+// Runs on install and on every update, so stored settings always match the schema
+const migrateStoredSettings = async () => {
+  const result = await chrome.storage.local.get([SETTINGS_KEY]);
+  const stored = result[SETTINGS_KEY];
+  const { settings, migratedFrom, repaired } = normalizeSettings(stored);
+
+  if (stored !== undefined && migratedFrom === null && repaired.length === 0) return;
+
+  if (migratedFrom !== null) {
+    console.log(`Migrated settings from version ${migratedFrom} to ${SETTINGS_VERSION}`);
+  }
+  if (repaired.length > 0) {
+    console.warn(`Repaired invalid settings: ${repaired.join(", ")}`);
+  }
+  await chrome.storage.local.set({
+    [SETTINGS_KEY]: settings,
+    [SETTINGS_LAST_UPDATE_KEY]: Date.now(),
+  });
+};
+
+const loadTimerContext = async (): Promise<{ state: TimerState; settings: TimerSettings }> => {
+  const result = await chrome.storage.local.get([TIMER_STATE_KEY, SETTINGS_KEY, TIMER_LAST_UPDATE_KEY]);
+  // Validated on every load, in case something wrote legacy or broken values
+  const { settings } = normalizeSettings(result[SETTINGS_KEY]);
+  const state = result[TIMER_STATE_KEY] || createInitialTimerState(settings);
+
+  // States written before end timestamps existed only know their last update
+  if (state.isRunning && !state.endsAt) {
+    const lastUpdate = result[TIMER_LAST_UPDATE_KEY] || Date.now();
+    state.endsAt = lastUpdate + state.timeRemaining * 1000;
+  }
+
+  return {
+    state: { sessionCount: 0, endsAt: null, currentPhase: null, activeTaskId: null, autoStartAt: null, overtime: false, snoozes: 0, ...state },
+    settings,
+  };
+};
+
+// Push the state to every tab and extension page
+const broadcastTimerState = (state: TimerState) => {
+  const message = {
+    action: "timerState",
+    value: state,
+    timestamp: Date.now(),
+    tabId: "background",
+  };
+
+  sendToTabs(message);
+
+  // Extension pages (popup, options) are reached through the runtime instead
+  chrome.runtime.sendMessage(message).catch(() => {});
+};
+
+// The alarm ends the running phase, or starts a pending one after its grace period
+const armPhaseAlarm = async (state: TimerState) => {
+  if (state.isRunning && state.endsAt && !state.overtime) {
+    chrome.alarms.create(PHASE_ALARM, { when: state.endsAt });
+  } else if (!state.isRunning && state.autoStartAt) {
+    chrome.alarms.create(PHASE_ALARM, { when: state.autoStartAt });
+  } else {
+    await chrome.alarms.clear(PHASE_ALARM);
+  }
+
+  // The spoken warning a minute before the running phase ends
+  const warnAt = state.isRunning && state.endsAt && !state.overtime ? state.endsAt - ONE_MINUTE_WARNING_SECONDS * 1000 : null;
+  if (warnAt && warnAt > Date.now()) {
+    chrome.alarms.create(ONE_MINUTE_ALARM, { when: warnAt });
+  } else {
+    await chrome.alarms.clear(ONE_MINUTE_ALARM);
+  }
+};
+
+const commitTimerState = async (state: TimerState) => {
+  await chrome.storage.local.set({ [TIMER_STATE_KEY]: state });
+  await armPhaseAlarm(state);
+  broadcastTimerState(state);
+  updateActionBadge(state).catch((error) => console.error("Error updating the badge:", error));
+  return state;
+};
+
+// ---------------------------------------------------------------------------
+// Toolbar badge
+//
+// The action icon shows the minutes left, so the timer can be followed
+// without the floating widget covering the page. Badge text only fits a few
+// characters, so the tooltip carries the exact time.
+// ---------------------------------------------------------------------------
+
+const BADGE_ALARM = "focusflow_badge";
+
+const BADGE_COLORS = {
+  focus: "#9b87f5",
+  break: "#16a34a",
+  longBreak: "#16a34a",
+  paused: "#9ca3af",
+};
+
+const MODE_LABELS: Record<TimerMode, string> = {
+  focus: "Focus",
+  break: "Break",
+  longBreak: "Long break",
+};
+
+const formatClockTime = (timestamp: number) => {
+  return new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+};
+
+// What the badge shows for a state, and when the text next changes
+const getBadge = (state: TimerState, now: number = Date.now()) => {
+  const label = MODE_LABELS[state.mode] || MODE_LABELS.focus;
+
+  if (state.overtime && state.endsAt) {
+    const overtimeMinutes = Math.floor(getOvertimeSeconds(state, now) / 60);
+    return {
+      text: `+${overtimeMinutes}m`,
+      color: BADGE_COLORS.focus,
+      title: `FocusFlow: focus overtime since ${formatClockTime(state.endsAt)}`,
+      nextChange: state.endsAt + (overtimeMinutes + 1) * 60 * 1000,
+    };
+  }
+
+  if (state.isRunning && state.endsAt) {
+    // Counted in started minutes, so the badge reads 1m for the last minute
+    const minutes = Math.ceil(getRemainingSeconds(state, now) / 60);
+    return {
+      text: `${minutes}m`,
+      color: BADGE_COLORS[state.mode] || BADGE_COLORS.focus,
+      title: `FocusFlow: ${label} ends at ${formatClockTime(state.endsAt)}`,
+      nextChange: minutes > 1 ? state.endsAt - (minutes - 1) * 60 * 1000 : null,
+    };
+  }
+
+  if (state.currentPhase) {
+    return {
+      text: `${Math.ceil(state.timeRemaining / 60)}m`,
+      color: BADGE_COLORS.paused,
+      title: `FocusFlow: ${label} paused with ${formatTime(state.timeRemaining)} left`,
+      nextChange: null,
+    };
+  }
+
+  return {
+    text: "",
+    color: BADGE_COLORS.focus,
+    title: state.autoStartAt
+      ? `FocusFlow: ${label} starts at ${formatClockTime(state.autoStartAt)}`
+      : `FocusFlow: ${label} of ${formatTime(state.timeRemaining)} ready to start`,
+    nextChange: null,
+  };
+};
+
+const updateActionBadge = async (state: TimerState) => {
+  const badge = getBadge(state);
+
+  await Promise.all([
+    chrome.action.setBadgeText({ text: badge.text }),
+    chrome.action.setBadgeBackgroundColor({ color: badge.color }),
+    chrome.action.setBadgeTextColor({ color: "#ffffff" }),
+    chrome.action.setTitle({ title: badge.title }),
+  ]);
+
+  // Wake up when the minute changes; the phase alarm covers the end itself
+  if (badge.nextChange) {
+    chrome.alarms.create(BADGE_ALARM, { when: badge.nextChange });
+  } else {
+    await chrome.alarms.clear(BADGE_ALARM);
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Sounds
+//
+// Uploads are kept in this worker's IndexedDB, which pages reach through
+// messages; content scripts only see the database of the site they run on
+// ---------------------------------------------------------------------------
+
+const getWorkerSoundSource = (cue: SoundCue, soundId: string) => getSoundSource(cue, soundId, chrome.runtime.getURL);
+
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  const handlers: Record<string, () => Promise<Record<string, unknown>>> = {
+    getCustomSounds: async () => ({ sounds: (await readStoredSounds()).map(toSoundInfo) }),
+    exportCustomSounds: async () => ({ sounds: await readStoredSounds() }),
+    saveCustomSound: async () => {
+      const sound = message.sound;
+      if (!sound?.id?.startsWith(CUSTOM_SOUND_PREFIX) || typeof sound.dataUrl !== "string") {
+        throw new Error("Invalid sound");
+      }
+      await writeStoredSound(sound);
+      return {};
+    },
+    deleteCustomSound: async () => {
+      await removeStoredSound(message.id);
+      return {};
+    },
+    previewSound: async () => {
+      await playCue(message.cue, message.settings);
+      return {};
+    },
+  };
+
+  const handler = handlers[message.action];
+  if (!handler) return false;
+
+  handler()
+    .then((response) => sendResponse({ success: true, ...response }))
+    .catch((error) => {
+      console.error(`Sound request "${message.action}" failed:`, error);
+      sendResponse({ success: false, error: String(error) });
+    });
+  return true;
+});
+
+// The offscreen document is the only place a service worker can play audio from
+let creatingOffscreen: Promise<void> | null = null;
+
+const ensureOffscreenDocument = async () => {
+  if (await chrome.offscreen.hasDocument()) return;
+
+  if (!creatingOffscreen) {
+    creatingOffscreen = chrome.offscreen.createDocument({
+      url: "offscreen.html",
+      reasons: ["AUDIO_PLAYBACK", "TTS"],
+      justification: "Play the timer sounds and spoken announcements, and the tick during focus",
+    }).finally(() => {
+      creatingOffscreen = null;
+    });
+  }
+
+  await creatingOffscreen;
+};
+
+// Plays a cue once with its sound settings
+const playCue = async (cue: SoundCue, cueSettings: SoundCueSettings) => {
+  try {
+    const src = await getWorkerSoundSource(cue, cueSettings.soundId);
+    if (!src) return;
+
+    await ensureOffscreenDocument();
+    await chrome.runtime.sendMessage({
+      target: "offscreen",
+      action: "playSound",
+      src,
+      volume: cueSettings.volume / 100,
+    });
+  } catch (error) {
+    console.error("Error playing timer sound:", error);
+  }
+};
+
+// Loops the tick in the offscreen document while focus runs, if turned on
+const updateTicking = async (state: TimerState, settings: TimerSettings) => {
+  const { sounds } = settings;
+  const src = sounds.tickDuringFocus && state.mode === "focus" && state.isRunning
+    ? await getWorkerSoundSource("tick", sounds.tick.soundId)
+    : null;
+
+  if (src) {
+    await ensureOffscreenDocument();
+    await chrome.runtime.sendMessage({ target: "offscreen", action: "startTicking", src, volume: sounds.tick.volume / 100 });
+  } else if (await chrome.offscreen.hasDocument()) {
+    await chrome.runtime.sendMessage({ target: "offscreen", action: "stopTicking" });
+  }
+};
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === "local" && (TIMER_STATE_KEY in changes || SETTINGS_KEY in changes)) {
+    loadTimerContext()
+      .then(({ state, settings }) => updateTicking(state, settings))
+      .catch((error) => console.error("Error updating the tick:", error));
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Notifications
+//
+// Shown from here only, so each fires once however many tabs are open, and
+// even when every tab is a chrome:// page without the content script
+// ---------------------------------------------------------------------------
+
+const NOTIFICATION_PREFIX = "focusflow";
+
+// Milestones have no buttons, so their actions can be left out
+type WorkerNotification = Omit<TimerNotification, "actions"> & { actions?: TimerNotification["actions"] };
+
+// The actions are kept in the id, as button clicks may wake a fresh worker
+const notify = (settings: TimerSettings, { event, message, actions = [] }: WorkerNotification) => {
+  if (!settings.notifications[event]) return;
+
+  const id = [NOTIFICATION_PREFIX, actions.map((action) => action.id).join(","), Date.now()].join("|");
+  chrome.notifications.create(id, {
+    type: "basic",
+    iconUrl: chrome.runtime.getURL("icon-128.png"),
+    title: "FocusFlow",
+    message,
+    buttons: actions.map((action) => ({ title: action.label })),
+  });
+};
+
+const runNotificationAction = (action: NotificationActionId) => {
+  if (action === "start") return runTimerCommand("start");
+  if (action === "skip") return runTimerCommand("skip");
+  if (action === "snooze") return runTimerCommand("snooze", { minutes: NOTIFICATION_SNOOZE_MINUTES });
+  return Promise.resolve();
+};
+
+chrome.notifications.onButtonClicked.addListener((notificationId, buttonIndex) => {
+  const [prefix, actions = ""] = notificationId.split("|");
+  if (prefix !== NOTIFICATION_PREFIX) return;
+
+  chrome.notifications.clear(notificationId);
+  runNotificationAction(actions.split(",")[buttonIndex] as NotificationActionId)
+    .catch((error) => console.error("Notification action failed:", error));
+});
+
+chrome.notifications.onClicked.addListener((notificationId) => {
+  if (notificationId.startsWith(NOTIFICATION_PREFIX)) {
+    chrome.notifications.clear(notificationId);
+  }
+});
+
+const announceOvertime = (settings: TimerSettings, state: TimerState, nextState: TimerState) => {
+  playCue("breakStart", settings.sounds.breakStart);
+  notify(settings, getPhaseNotification(state, nextState, "overtime", getSnoozesLeft(nextState, settings)));
+};
+
+const announcePhase = (settings: TimerSettings, state: TimerState, nextState: TimerState) => {
+  const { speech } = settings;
+  const spoken = getPhaseSpeech(nextState, "phaseComplete");
+  if (spoken) speakCue(settings, spoken.cue, spoken.minutes, nextState.activeTaskId);
+
+  // Speech can take the place of the sound
+  if (!spoken || !speech.enabled || !speech.replaceSounds || !speech.templates[spoken.cue]) {
+    const cue = nextState.mode === "focus" ? "focusStart" : "breakStart";
+    playCue(cue, settings.sounds[cue]);
+  }
+  notify(settings, getPhaseNotification(state, nextState, "phaseComplete", getSnoozesLeft(nextState, settings)));
+};
+
+// ---------------------------------------------------------------------------
+// Spoken announcements
+//
+// Spoken by the offscreen document, as service workers have no speechSynthesis
+// ---------------------------------------------------------------------------
+
+const ONE_MINUTE_ALARM = "focusflow_one_minute";
+
+const getTaskTitle = async (taskId: string | null) => {
+  if (!taskId) return "";
+
+  const result = await chrome.storage.local.get([TASKS_KEY]);
+  return (result[TASKS_KEY] || []).find((task) => task.id === taskId)?.title ?? "";
+};
+
+const speakCue = async (settings: TimerSettings, cue: SpeechCue, minutes: number, taskId: string | null) => {
+  const { speech } = settings;
+  if (!speech.enabled || !speech.templates[cue]) return;
+
+  try {
+    const text = fillSpeechTemplate(speech.templates[cue], { task: await getTaskTitle(taskId), minutes });
+    await ensureOffscreenDocument();
+    await chrome.runtime.sendMessage({ target: "offscreen", action: "speak", text, voiceURI: speech.voiceURI, rate: speech.rate / 100 });
+  } catch (error) {
+    console.error("Error speaking announcement:", error);
+  }
+};
+
+// Runs on the warning alarm, which may be stale if the phase changed since
+const announceOneMinuteLeft = async () => {
+  const { state, settings } = await loadTimerContext();
+  if (!state.isRunning || state.overtime) return;
+
+  const remaining = getRemainingSeconds(state);
+  if (remaining <= 0 || remaining > ONE_MINUTE_WARNING_SECONDS + 5) return;
+
+  await speakCue(settings, "oneMinuteLeft", Math.ceil(remaining / 60), state.activeTaskId);
+};
+
+// ---------------------------------------------------------------------------
+// Session history and daily goal
+// ---------------------------------------------------------------------------
+
+const appendSessionRecords = async (records: SessionRecord[]) => {
+  if (records.length === 0) return null;
+
+  const result = await chrome.storage.local.get([SESSION_HISTORY_KEY]);
+  const history: SessionRecord[] = [...(result[SESSION_HISTORY_KEY] || []), ...records].slice(-MAX_SESSION_RECORDS);
+  await chrome.storage.local.set({ [SESSION_HISTORY_KEY]: history, [DAILY_FOCUS_KEY]: getDailyFocusTotals(history) });
+  return history;
+};
+
+// Extends the streak and celebrates the first time the goal is met each day
+const checkDailyGoal = async (history: SessionRecord[], settings: TimerSettings) => {
+  if (isGoalMetToday(settings.goalStreak) || !getDailyGoalProgress(getDailyFocusTotals(history), settings)?.met) return;
+
+  const goalStreak = recordGoalMet(settings.goalStreak);
+  const result = await chrome.storage.local.get([SETTINGS_KEY]);
+  const nextSettings = { ...normalizeSettings(result[SETTINGS_KEY]).settings, goalStreak };
+  await chrome.storage.local.set({
+    [SETTINGS_KEY]: nextSettings,
+    [SETTINGS_LAST_UPDATE_KEY]: Date.now(),
+  });
+
+  notify(settings, { event: "goalMet", message: `Daily goal reached! You are on a ${goalStreak.count}-day streak.` });
+};
+
+// ---------------------------------------------------------------------------
+// Timer commands
+// ---------------------------------------------------------------------------
+
+// Commands from tabs, plus the ones only the worker sends itself
+type WorkerTimerCommand = TimerCommand | "toggle" | "idleStart" | "idleEnd" | "startWorkDay";
+
+type TimerLog = (record: SessionRecord | null, entry: TimerEventLogEntry | null) => void;
+
+type TimerCommandHandler = (
+  state: TimerState,
+  settings: TimerSettings,
+  payload: Record<string, unknown> | undefined,
+  log: TimerLog
+) => TimerState;
+
+// Runs an event through the state machine from a command handler, passing the
+// session record and log entry on and announcing the result
+const applyTimerEvent = (state: TimerState, settings: TimerSettings, event: TimerEvent, log: TimerLog) => {
+  const { state: nextState, record, announcement, entry } = transition(state, event, { settings, now: Date.now() });
+
+  log(record, entry);
+  announce(settings, state, nextState, announcement);
+  return nextState;
+};
+
+const announce = (settings: TimerSettings, state: TimerState, nextState: TimerState, announcement: TimerAnnouncement | null) => {
+  if (announcement === "overtime") {
+    announceOvertime(settings, state, nextState);
+  } else if (announcement === "phaseComplete") {
+    announcePhase(settings, state, nextState);
+  }
+};
+
+const appendTimerEvents = async (entries: TimerEventLogEntry[]) => {
+  if (entries.length === 0) return;
+
+  const result = await chrome.storage.local.get([TIMER_EVENTS_KEY]);
+  const events = [...(result[TIMER_EVENTS_KEY] || []), ...entries].slice(-MAX_TIMER_EVENTS);
+  await chrome.storage.local.set({ [TIMER_EVENTS_KEY]: events });
+};
+
+const timerCommands: Record<WorkerTimerCommand, TimerCommandHandler> = {
+  getState: (state) => state,
+
+  start: (state, settings, payload, log) =>
+    applyTimerEvent(state, settings, { type: state.currentPhase ? "RESUME" : "START" }, log),
+
+  pause: (state, settings, payload, log) => applyTimerEvent(state, settings, { type: "PAUSE" }, log),
+
+  // Start or pause with one key; overtime has no pause, so it goes on to the break
+  toggle: (state, settings, payload, log) => {
+    if (state.overtime) return timerCommands.finishFocus(state, settings, payload, log);
+    return state.isRunning
+      ? timerCommands.pause(state, settings, payload, log)
+      : timerCommands.start(state, settings, payload, log);
+  },
+
+  reset: (state, settings, payload, log) => applyTimerEvent(state, settings, { type: "RESET", mode: payload?.mode as TimerMode | undefined }, log),
+
+  skip: (state, settings, payload, log) => applyTimerEvent(state, settings, { type: "SKIP" }, log),
+
+  // Sent by the phase alarm, and by tabs when their display reaches zero,
+  // which covers phases and grace periods shorter than the minimum alarm delay
+  expire: (state, settings, payload, log) => applyTimerEvent(state, settings, { type: "TICK" }, log),
+
+  finishFocus: (state, settings, payload, log) => applyTimerEvent(state, settings, { type: "COMPLETE" }, log),
+
+  labelPause: (state, settings, payload, log) => {
+    if (!payload?.reason) return state;
+    return applyTimerEvent(state, settings, {
+      type: "LABEL_PAUSE",
+      reason: payload.reason as InterruptionReason,
+      note: typeof payload.note === "string" ? payload.note : undefined,
+    }, log);
+  },
+
+  extend: (state, settings, payload, log) =>
+    applyTimerEvent(state, settings, { type: "EXTEND", seconds: Number(payload?.minutes) * 60 }, log),
+
+  snooze: (state, settings, payload, log) =>
+    applyTimerEvent(state, settings, { type: "SNOOZE", seconds: Number(payload?.minutes) * 60 }, log),
+
+  // Reported by chrome.idle, with the time of the last input
+  idleStart: (state, settings, payload, log) =>
+    applyTimerEvent(state, settings, { type: "IDLE_START", since: Number(payload?.since ?? Date.now()) }, log),
+
+  idleEnd: (state, settings, payload, log) => applyTimerEvent(state, settings, { type: "IDLE_END" }, log),
+
+  resolveIdle: (state, settings, payload, log) =>
+    applyTimerEvent(state, settings, { type: "RESOLVE_IDLE", keep: Boolean(payload?.keep) }, log),
+
+  // The first focus block of the day, if nothing has been started yet
+  startWorkDay: (state, settings, payload, log) => {
+    if (state.mode !== "focus" || state.isRunning || state.currentPhase) return state;
+    return applyTimerEvent(state, settings, { type: "START" }, log);
+  },
+
+  cancelAutoStart: (state, settings, payload, log) => applyTimerEvent(state, settings, { type: "CANCEL_AUTO_START" }, log),
+
+  // Choosing an activity starts the break right away
+  selectActivity: (state, settings, payload, log) => applyTimerEvent(state, settings, {
+    type: "SELECT_ACTIVITY",
+    activity: payload?.activity === "game" || payload?.activity === "relax" ? payload.activity : null,
+  }, log),
+
+  selectTask: (state, settings, payload, log) => applyTimerEvent(state, settings, {
+    type: "SELECT_TASK",
+    taskId: typeof payload?.taskId === "string" ? payload.taskId : null,
+  }, log),
+
+  // A blocked site was unlocked with a reason
+  logUnlock: (state, settings, payload, log) => applyTimerEvent(state, settings, {
+    type: "LOG_UNLOCK",
+    site: String(payload?.site ?? ""),
+    reason: String(payload?.reason ?? ""),
+  }, log),
+
+  setDuration: (state, settings, payload, log) => applyTimerEvent(state, settings, {
+    type: "SET_DURATION",
+    mode: payload?.mode as TimerMode,
+    seconds: Number(payload?.minutes) * 60,
+  }, log),
+};
+
+// Commands are processed one at a time so concurrent tabs cannot interleave
+let timerQueue: Promise<unknown> = Promise.resolve();
+
+const runTimerCommand = (command: WorkerTimerCommand, payload?: Record<string, unknown>): Promise<TimerState> => {
+  const task = timerQueue.then(async () => {
+    const handler = timerCommands[command];
+    if (!handler) {
+      throw new Error(`Unknown timer command: ${command}`);
+    }
+
+    const { state, settings } = await loadTimerContext();
+    const records: SessionRecord[] = [];
+    const entries: TimerEventLogEntry[] = [];
+    const log: TimerLog = (record, entry) => {
+      if (record) records.push(record);
+      if (entry) entries.push(entry);
+    };
+    const nextState = handler(state, settings, payload, log);
+
+    if (nextState === state) return state;
+    await appendTimerEvents(entries);
+    const history = await appendSessionRecords(records);
+    if (history) {
+      await checkDailyGoal(history, settings);
+    }
+    return commitTimerState(nextState);
+  });
+
+  timerQueue = task.catch(() => {});
+  return task;
+};
+
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  if (message.action !== "timerCommand") {
+    return false;
+  }
+
+  runTimerCommand(message.command, message.payload)
+    .then((state) => sendResponse({ success: true, state }))
+    .catch((error) => {
+      console.error("Timer command failed:", error);
+      sendResponse({ success: false, error: String(error) });
+    });
+
+  return true;
+});
+
+// ---------------------------------------------------------------------------
+// Working hours
+// ---------------------------------------------------------------------------
+
+const SCHEDULE_ALARM = "focusflow_schedule";
+const WORK_DAY_STARTED_KEY = "focusflow_work_day_started";
+
+// Pauses the timer when working hours end, if set to, and starts the first
+// focus block when they begin
+const checkWorkSchedule = async () => {
+  const { state, settings } = await loadTimerContext();
+  const schedule = settings.workSchedule;
+  if (!schedule.enabled) return;
+
+  const now = new Date();
+  if (state.isRunning && !state.overtime && schedule.outsideHours === "pause" && !isWithinWorkingHours(schedule, now)) {
+    await runTimerCommand("pause");
+    notify(settings, { event: "workHoursOver", message: "Working hours are over. The timer is paused." });
+    return;
+  }
+
+  if (!schedule.autoStartFirstFocus || !isStartOfWorkDay(schedule, now)) return;
+
+  const today = format(now, "yyyy-MM-dd");
+  const result = await chrome.storage.local.get([WORK_DAY_STARTED_KEY]);
+  if (result[WORK_DAY_STARTED_KEY] === today) return;
+
+  await chrome.storage.local.set({ [WORK_DAY_STARTED_KEY]: today });
+  await runTimerCommand("startWorkDay");
+};
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === PHASE_ALARM) {
+    runTimerCommand("expire").catch((error) => console.error("Error completing the phase:", error));
+  } else if (alarm.name === SCHEDULE_ALARM) {
+    checkWorkSchedule().catch((error) => console.error("Error checking working hours:", error));
+  } else if (alarm.name === ONE_MINUTE_ALARM) {
+    announceOneMinuteLeft().catch((error) => console.error("Error announcing the last minute:", error));
+  } else if (alarm.name === BADGE_ALARM) {
+    loadTimerContext()
+      .then(({ state }) => updateActionBadge(state))
+      .catch((error) => console.error("Error updating the badge:", error));
+  }
+});
+
+// Checked every minute; the alarm is only created once so waking the worker
+// does not push it back
+chrome.alarms.get(SCHEDULE_ALARM).then((alarm) => {
+  if (!alarm) {
+    chrome.alarms.create(SCHEDULE_ALARM, { periodInMinutes: 1 });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Keyboard shortcuts
+//
+// Registered as commands in manifest.json, so they work in every tab and
+// users rebind them on Chrome's shortcuts page
+// ---------------------------------------------------------------------------
+
+// The panel lives in the page, so the active tab is asked to open it
+const openPanelInActiveTab = async () => {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (!tab?.id) return;
+
+  await chrome.tabs.sendMessage(tab.id, { action: "shortcut", command: "open-panel" }).catch(() => {
+    // Pages the content script can not run on, such as chrome:// pages, have no panel
+  });
+};
+
+chrome.commands.onCommand.addListener((command) => {
+  const run = {
+    "toggle-timer": () => runTimerCommand("toggle"),
+    "skip-phase": () => runTimerCommand("skip"),
+    "extend-timer": () => runTimerCommand("extend", { minutes: SHORTCUT_EXTEND_MINUTES }),
+    "open-panel": openPanelInActiveTab,
+  }[command];
+
+  run?.().catch((error) => console.error(`Shortcut "${command}" failed:`, error));
+});
+
+chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  if (message.action === "getShortcuts") {
+    chrome.commands.getAll().then((commands) => {
+      sendResponse({
+        shortcuts: Object.fromEntries(commands
+          .filter((command) => command.name in defaultShortcuts)
+          .map((command) => [command.name, command.shortcut || ""])),
+      });
+    });
+    return true;
+  }
+
+  if (message.action === "openShortcutSettings") {
+    chrome.tabs.create({ url: "chrome://extensions/shortcuts" });
+  }
+  return false;
+});
+
+// ---------------------------------------------------------------------------
+// Idle detection
+// ---------------------------------------------------------------------------
+
+// chrome.idle does not accept thresholds below 15 seconds
+const getIdleThresholdSeconds = (settings: TimerSettings) => Math.max(15, Math.round(settings.idleThreshold * 60));
+
+// chrome.idle reports idle after the threshold has passed, so the time away
+// is counted from when input stopped. A locked screen is reported at once.
+chrome.idle.onStateChanged.addListener((idleState) => {
+  if (idleState === "active") {
+    runTimerCommand("idleEnd").catch((error) => console.error("Error resuming after idle:", error));
+    return;
+  }
+
+  loadTimerContext()
+    .then(({ settings }) => {
+      const since = idleState === "idle" ? Date.now() - getIdleThresholdSeconds(settings) * 1000 : Date.now();
+      return runTimerCommand("idleStart", { since });
+    })
+    .catch((error) => console.error("Error pausing for idle:", error));
+});
+
+const configureIdleDetection = async () => {
+  const { settings } = await loadTimerContext();
+  chrome.idle.setDetectionInterval(getIdleThresholdSeconds(settings));
+};
+
+const logIdleSetupError = (error: unknown) => console.error("Error configuring idle detection:", error);
+
+configureIdleDetection().catch(logIdleSetupError);
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === "local" && SETTINGS_KEY in changes) {
+    configureIdleDetection().catch(logIdleSetupError);
+  }
+});
+
+// Alarms and the badge do not survive a browser restart, so restore them, or
+// complete the phase, on startup
+chrome.runtime.onStartup.addListener(() => {
+  runTimerCommand("expire")
+    .then((state) => Promise.all([armPhaseAlarm(state), updateActionBadge(state)]))
+    .catch((error) => console.error("Error restoring the timer on startup:", error));
+});
@@ -0,0 +1,48 @@
+import React from "react";
+import { TimerMode } from "@/types";
+import { isBreakMode } from "@/utils/timerUtils";
+import { NOTIFICATION_SNOOZE_MINUTES } from "@/utils/notificationUtils";
+import { useCountdown } from "@/hooks/useCountdown";
+import { Button } from "./ui/button";
+
+interface AutoStartCountdownProps {
+  autoStartAt: number | null;
+  mode: TimerMode;
+  onCancel: () => void;
+  snoozesLeft: number;
+  onSnooze: (minutes: number) => void;
+}
+
+const AutoStartCountdown: React.FC<AutoStartCountdownProps> = ({
+  autoStartAt,
+  mode,
+  onCancel,
+  snoozesLeft,
+  onSnooze
+}) => {
+  const secondsLeft = useCountdown(autoStartAt);
+
+  if (autoStartAt === null || secondsLeft <= 0) return null;
+
+  return (
+    <div className="flex items-center justify-center gap-2 bg-focus-purple/10 rounded-full px-4 py-1.5 my-2 animate-fade-in" role="status">
+      <span className="text-sm text-dark-text">
+        {isBreakMode(mode) ? "Break" : "Focus"} starts in <span className="font-semibold text-focus-purple">{secondsLeft}s</span>
+      </span>
+      <Button variant="link" onClick={onCancel} className="text-sm text-focus-purple h-auto p-0">
+        Cancel
+      </Button>
+      <Button
+        variant="link"
+        onClick={() => onSnooze(NOTIFICATION_SNOOZE_MINUTES)}
+        disabled={snoozesLeft <= 0}
+        className="text-sm text-focus-purple h-auto p-0"
+        title={snoozesLeft > 0 ? `${snoozesLeft} left before this ${isBreakMode(mode) ? 'break' : 'session'}` : "No more snoozes for this phase"}
+      >
+        Snooze {NOTIFICATION_SNOOZE_MINUTES} min
+      </Button>
+    </div>
+  );
+};
+
+export default AutoStartCountdown;
@@ -0,0 +1,139 @@
+import React, { useRef, useState } from "react";
+import { format } from "date-fns";
+import { Download, Upload } from "lucide-react";
+import { toast } from "sonner";
+import {
+  BackupData,
+  BackupFile,
+  RestoreMode,
+  combineBackupData,
+  createBackupFile,
+  diffBackupData,
+  getBackupData,
+  parseBackupFile,
+  restoreBackupData
+} from "@/utils/backupUtils";
+import { downloadFile, readFileAsText } from "@/utils/fileUtils";
+import { Button } from "./ui/button";
+import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group";
+
+// A backup that passed validation, waiting for the user to confirm
+interface PendingRestore {
+  backup: BackupFile;
+  current: BackupData;
+}
+
+const BackupPanel: React.FC = () => {
+  const [pending, setPending] = useState<PendingRestore | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [isBusy, setIsBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleDownload = async () => {
+    try {
+      const data = await getBackupData();
+      downloadFile(`focusflow-backup-${format(new Date(), "yyyy-MM-dd")}.json`, createBackupFile(data), "application/json");
+    } catch (error) {
+      console.error("Error creating backup:", error);
+      toast.error("Could not create the backup");
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const backup = parseBackupFile(await readFileAsText(file));
+      setPending({ backup, current: await getBackupData() });
+      setMode("merge");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not read the backup");
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!pending) return;
+
+    setIsBusy(true);
+    try {
+      await restoreBackupData(combineBackupData(pending.current, pending.backup.data, mode));
+      toast.success("Backup restored. Reopen FocusFlow in other tabs to see every change.");
+      setPending(null);
+    } catch (error) {
+      console.error("Error restoring backup:", error);
+      toast.error("Could not restore the backup; your data was not changed");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const diff = pending ? diffBackupData(pending.current, pending.backup.data, mode) : [];
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Settings, presets, tasks, session history, chat conversations and uploaded sounds, in one file.
+      </p>
+
+      {!pending ? (
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" onClick={handleDownload} className="rounded-full text-sm">
+            <Download size={14} className="mr-1" /> Download
+          </Button>
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="rounded-full text-sm">
+            <Upload size={14} className="mr-1" /> Restore
+          </Button>
+        </div>
+      ) : (
+        <>
+          <p className="text-xs text-muted-foreground">
+            Backup from {pending.backup.createdAt ? format(new Date(pending.backup.createdAt), "PPp") : "an unknown date"}
+          </p>
+
+          <ToggleGroup type="single" value={mode} onValueChange={(value) => value && setMode(value as RestoreMode)}>
+            <ToggleGroupItem value="merge" className="text-xs h-8">Merge with this device</ToggleGroupItem>
+            <ToggleGroupItem value="replace" className="text-xs h-8">Replace everything</ToggleGroupItem>
+          </ToggleGroup>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-muted-foreground">
+                <th className="text-left font-normal"></th>
+                <th className="text-right font-normal">New</th>
+                <th className="text-right font-normal">Changed</th>
+                <th className="text-right font-normal">Removed</th>
+                <th className="text-right font-normal">Same</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.map((row) => (
+                <tr key={row.section}>
+                  <td>{row.section}</td>
+                  <td className="text-right text-focus-purple">{row.added}</td>
+                  <td className="text-right">{row.updated}</td>
+                  <td className={`text-right ${row.removed > 0 ? 'text-red-500 font-semibold' : ''}`}>{row.removed}</td>
+                  <td className="text-right text-muted-foreground">{row.unchanged}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setPending(null)} disabled={isBusy} className="rounded-full">
+              Back
+            </Button>
+            <Button onClick={handleRestore} disabled={isBusy} className="bg-focus-purple hover:bg-focus-purple-dark text-white rounded-full">
+              {mode === "merge" ? "Merge" : "Replace"}
+            </Button>
+          </div>
+        </>
+      )}
+
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+    </div>
+  );
+};
+
+export default BackupPanel;
@@ -0,0 +1,126 @@
+import React, { useState } from "react";
+import { X } from "lucide-react";
+import { BlockingSettings, TimerSettings } from "@/types";
+import { isExtensionContext } from "@/utils/chromeUtils";
+import { MAX_SITE_PATTERNS, UNLOCK_MINUTES, normalizeSitePattern } from "@/utils/blockingUtils";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Switch } from "./ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group";
+
+interface BlockingSettingsPanelProps {
+  settings: TimerSettings;
+  onChangeSettings: (settings: TimerSettings) => void;
+}
+
+const BlockingSettingsPanel: React.FC<BlockingSettingsPanelProps> = ({ settings, onChangeSettings }) => {
+  const [site, setSite] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const { blocking } = settings;
+
+  // The list the current mode works from
+  const listKey = blocking.mode === "allowlist" ? "allowlist" : "blocklist";
+  const sites = blocking[listKey];
+
+  const changeBlocking = (change: Partial<BlockingSettings>) => {
+    onChangeSettings({ ...settings, blocking: { ...blocking, ...change } });
+  };
+
+  const addSite = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const pattern = normalizeSitePattern(site);
+    if (!pattern) {
+      setError("Enter a site like example.com, *.example.com or news.*");
+      return;
+    }
+    if (sites.length >= MAX_SITE_PATTERNS) {
+      setError(`Lists hold up to ${MAX_SITE_PATTERNS} sites`);
+      return;
+    }
+
+    if (!sites.includes(pattern)) changeBlocking({ [listKey]: [...sites, pattern] });
+    setSite("");
+    setError(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {isExtensionContext()
+          ? "While focus runs, blocked sites are covered until the timer stops. Unlocking one asks for a reason."
+          : "Blocking needs the FocusFlow Chrome extension, which can cover other sites. Your lists are kept for it."}
+      </p>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="blocking-enabled" className="text-sm text-dark-text">Block sites during focus</Label>
+          <Switch id="blocking-enabled" checked={blocking.enabled} onCheckedChange={(enabled) => changeBlocking({ enabled })} />
+        </div>
+
+        <ToggleGroup
+          type="single"
+          value={blocking.mode}
+          onValueChange={(value) => value && changeBlocking({ mode: value as BlockingSettings["mode"] })}
+        >
+          <ToggleGroupItem value="blocklist" className="text-xs h-8">Block these sites</ToggleGroupItem>
+          <ToggleGroupItem value="allowlist" className="text-xs h-8">Allow only these sites</ToggleGroupItem>
+        </ToggleGroup>
+
+        <form onSubmit={addSite} className="flex gap-2">
+          <Input
+            value={site}
+            onChange={(e) => setSite(e.target.value)}
+            placeholder="example.com or *.example.com"
+            aria-label="Site to add"
+            className="h-8 text-sm"
+          />
+          <Button type="submit" variant="outline" className="h-8 rounded-full" disabled={!site.trim()}>
+            Add
+          </Button>
+        </form>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        {sites.length > 0 ? (
+          <ul className="flex max-h-40 flex-wrap gap-1 overflow-y-auto">
+            {sites.map((pattern) => (
+              <li key={pattern} className="flex items-center gap-1 rounded-full bg-gray-100 py-0.5 pl-2 pr-1 text-xs text-dark-text">
+                {pattern}
+                <button
+                  type="button"
+                  onClick={() => changeBlocking({ [listKey]: sites.filter((p) => p !== pattern) })}
+                  className="rounded-full p-0.5 text-gray-500 hover:bg-gray-200"
+                  aria-label={`Remove ${pattern}`}
+                >
+                  <X size={12} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-gray-500">
+            {blocking.mode === "allowlist" ? "With no sites allowed, every site is blocked." : "No sites are blocked yet."}
+          </p>
+        )}
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="unlock-minutes" className="text-sm text-dark-text">Unlocks last</Label>
+          <Select value={blocking.unlockMinutes.toString()} onValueChange={(value) => changeBlocking({ unlockMinutes: parseInt(value) })}>
+            <SelectTrigger id="unlock-minutes" className="w-28 h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {UNLOCK_MINUTES.map((minutes) => (
+                <SelectItem key={minutes} value={minutes.toString()}>{minutes} min</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BlockingSettingsPanel;
@@ -4,7 +4,9 @@ import { TimerState, BreakActivity } from "@/types";
 import { formatTime } from "@/utils/timerUtils";
 import PlatformerGame from "./PlatformerGame";
 import RelaxGuide from "./RelaxGuide";
-import { AlarmClock, Gamepad, Dumbbell, ChevronRight } from "lucide-react";
+import AutoStartCountdown from "./AutoStartCountdown";
+import ExtendButton from "./ExtendButton";
+import { AlarmClock, Gamepad, Dumbbell, ChevronRight, SkipForward } from "lucide-react";
 import { Button } from "./ui/button";
 
 interface BreakModeProps {
@@ -15,6 +17,12 @@ interface BreakModeProps {
   onSelectActivity: (activity: BreakActivity) => void;
   breakDuration: number;
   onChangeBreakDuration: (duration: number) => void;
+  onCancelAutoStart: () => void;
+  onSnooze: (minutes: number) => void;
+  snoozesLeft: number;
+  onExtend: (minutes: number) => void;
+  extensionsLeft: number;
+  onSkip: () => void;
 }
 
 const BreakMode: React.FC<BreakModeProps> = ({
@@ -24,14 +32,27 @@ const BreakMode: React.FC<BreakModeProps> = ({
   onReset,
   onSelectActivity,
   breakDuration,
-  onChangeBreakDuration
+  onChangeBreakDuration,
+  onCancelAutoStart,
+  onSnooze,
+  snoozesLeft,
+  onExtend,
+  extensionsLeft,
+  onSkip
 }) => {
-  const { breakActivity, timeRemaining, isRunning } = timerState;
+  const { breakActivity, timeRemaining, isRunning, mode, autoStartAt } = timerState;
   
   // Display the timer at the top of the break mode
   const displayTimer = () => (
     <div className="mb-4">
       <Timer timerState={timerState} />
+      <AutoStartCountdown
+        autoStartAt={isRunning ? null : autoStartAt}
+        mode={mode}
+        onCancel={onCancelAutoStart}
+        snoozesLeft={snoozesLeft}
+        onSnooze={onSnooze}
+      />
       <div className="flex justify-center gap-4 mt-2">
         <Button variant="outline" onClick={onReset} disabled={!isRunning} className="border-gray-300 text-gray-700 font-semibold px-6 py-1.5 rounded-full text-sm h-9">
           Reset <ChevronRight size={16} className="ml-1" />
@@ -41,6 +62,12 @@ const BreakMode: React.FC<BreakModeProps> = ({
           {isRunning ? "Pause" : "Start"} <ChevronRight size={16} className="ml-1" />
         </Button>
       </div>
+      <div className="flex justify-center gap-2 mt-2">
+        <ExtendButton timerState={timerState} extensionsLeft={extensionsLeft} onExtend={onExtend} />
+        <Button variant="outline" onClick={onSkip} className="border-gray-300 text-gray-700 px-4 py-1.5 rounded-full text-xs h-8">
+          <SkipForward size={14} className="mr-1 text-focus-purple" /> Skip break
+        </Button>
+      </div>
     </div>
   );
   
@@ -62,7 +89,7 @@ const BreakMode: React.FC<BreakModeProps> = ({
       <div className="text-center mb-6">
         <div className="flex items-center justify-center mb-2">
           <AlarmClock className="text-focus-purple mr-2" size={20} />
-          <h2 className="text-xl font-bold text-dark-text">Break Time</h2>
+          <h2 className="text-xl font-bold text-dark-text">{mode === 'longBreak' ? "Long Break" : "Break Time"}</h2>
           <span className="ml-2 text-sm font-medium text-focus-purple">{formatTime(timeRemaining)}</span>
         </div>
         <p className="text-sm text-muted-foreground">
@@ -0,0 +1,73 @@
+import React from "react";
+import { BreakRule } from "@/types";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+
+interface BreakRuleControlsProps {
+  rule: BreakRule;
+  onChangeRule: (rule: BreakRule) => void;
+  disabled?: boolean;
+}
+
+// Minutes of focus that earn one minute of break
+const FOCUS_PER_BREAK_MINUTE = [3, 4, 5, 6, 10];
+
+// Limits offered for a proportional break, in minutes
+const MIN_BREAK_MINUTES = [1, 2, 3, 4, 5];
+const MAX_BREAK_MINUTES = [5, 10, 15, 20, 30];
+
+// Ratio and limits of the proportional break rule
+const BreakRuleControls: React.FC<BreakRuleControlsProps> = ({ rule, onChangeRule, disabled = false }) => {
+  // Keep the limits in order when one of them moves past the other
+  const changeMin = (minMinutes: number) => {
+    onChangeRule({ ...rule, minMinutes, maxMinutes: Math.max(minMinutes, rule.maxMinutes) });
+  };
+  const changeMax = (maxMinutes: number) => {
+    onChangeRule({ ...rule, maxMinutes, minMinutes: Math.min(maxMinutes, rule.minMinutes) });
+  };
+
+  const limitSelect = (id: string, value: number, options: number[], onChange: (minutes: number) => void) => (
+    <Select value={value.toString()} onValueChange={(next) => onChange(parseInt(next))} disabled={disabled}>
+      <SelectTrigger id={id} className="w-28 h-8 text-sm">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((minutes) => (
+          <SelectItem key={minutes} value={minutes.toString()}>{minutes} min</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="break-ratio" className="text-sm text-dark-text">1 minute of break per</Label>
+        <Select
+          value={rule.focusMinutesPerBreakMinute.toString()}
+          onValueChange={(value) => onChangeRule({ ...rule, focusMinutesPerBreakMinute: parseInt(value) })}
+          disabled={disabled}
+        >
+          <SelectTrigger id="break-ratio" className="w-28 h-8 text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FOCUS_PER_BREAK_MINUTE.map((minutes) => (
+              <SelectItem key={minutes} value={minutes.toString()}>{minutes} min focus</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="break-min" className="text-sm text-dark-text">Shortest break</Label>
+        {limitSelect("break-min", rule.minMinutes, MIN_BREAK_MINUTES, changeMin)}
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="break-max" className="text-sm text-dark-text">Longest break</Label>
+        {limitSelect("break-max", rule.maxMinutes, MAX_BREAK_MINUTES, changeMax)}
+      </div>
+    </div>
+  );
+};
+
+export default BreakRuleControls;
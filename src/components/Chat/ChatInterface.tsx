@@ -17,13 +17,14 @@ import ApiKeyDialog from "./ApiKeyDialog";
 import { v4 as uuidv4 } from 'uuid';
 import { isExtensionContext, saveToLocalStorage, getFromLocalStorage, listenForStateChanges } from "@/utils/chromeUtils";
 import { checkOpenAIApiKeyInFirestore, getOpenAIApiKeyFromFirestore } from "@/utils/firebaseAdmin";
+import { CHAT_CONVERSATIONS_KEY } from "@/utils/chatStorage";
 
 interface ChatInterfaceProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-const STORAGE_KEY = "focusflow_chat_conversations";
+const STORAGE_KEY = CHAT_CONVERSATIONS_KEY;
 
 const getInitialWelcomeMessage = (): ChatMessageProps => ({
   role: "assistant",
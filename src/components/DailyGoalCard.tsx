@@ -0,0 +1,103 @@
+import React, { useState } from "react";
+import { Target, Minus, Plus, ChevronDown, ChevronUp, Flame } from "lucide-react";
+import { DailyGoalType, TimerSettings } from "@/types";
+import { DailyGoalProgress } from "@/utils/goalUtils";
+import { Button } from "./ui/button";
+import { Switch } from "./ui/switch";
+import { Label } from "./ui/label";
+import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
+
+interface DailyGoalCardProps {
+  settings: TimerSettings;
+  onChangeSettings: (settings: TimerSettings) => void;
+  progress: DailyGoalProgress | null;
+  streak: number;
+}
+
+// Step size and bounds of the goal target for each goal type
+const GOAL_LIMITS: Record<DailyGoalType, { step: number; min: number; max: number; fallback: number }> = {
+  minutes: { step: 15, min: 15, max: 600, fallback: 120 },
+  sessions: { step: 1, min: 1, max: 20, fallback: 4 },
+};
+
+const DailyGoalCard: React.FC<DailyGoalCardProps> = ({
+  settings,
+  onChangeSettings,
+  progress,
+  streak
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { dailyGoalType, dailyGoalTarget } = settings;
+  const limits = GOAL_LIMITS[dailyGoalType];
+  const unit = dailyGoalType === "minutes" ? "min" : "sessions";
+
+  const changeTarget = (target: number) => {
+    onChangeSettings({ ...settings, dailyGoalTarget: Math.min(limits.max, Math.max(limits.min, target)) });
+  };
+
+  const changeType = (type: string) => {
+    if (type !== "minutes" && type !== "sessions") return;
+    onChangeSettings({ ...settings, dailyGoalType: type, dailyGoalTarget: GOAL_LIMITS[type].fallback });
+  };
+
+  return (
+    <div className="focus-card p-4 w-full mt-6 animate-scale-in bg-gray-100 bg-opacity-80 backdrop-blur-md rounded-xl shadow-md transition-all duration-300 hover:shadow-lg">
+      <Collapsible open={isOpen} onOpenChange={setIsOpen} className="w-full">
+        <CollapsibleTrigger className="flex items-center justify-between w-full text-left">
+          <div className="flex items-center">
+            <Target className="text-focus-purple mr-2" size={18} />
+            <h2 className="text-lg text-dark-text font-semibold">Daily Goal</h2>
+          </div>
+          <div className="flex items-center">
+            <span className="text-sm mr-2 text-dark-text">
+              {progress ? `${progress.value} / ${progress.target} ${unit}` : "Off"}
+            </span>
+            {isOpen ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+          </div>
+        </CollapsibleTrigger>
+
+        {streak > 0 && (
+          <p className="text-xs text-muted-foreground mt-1 flex items-center">
+            <Flame size={12} className="text-focus-purple mr-1" /> {streak}-day goal streak
+          </p>
+        )}
+
+        <CollapsibleContent className="pt-2 transition-all data-[state=closed]:animate-accordion-up data-[state=open]:animate-accordion-down">
+          <div className="flex items-center justify-between mt-2">
+            <Label htmlFor="daily-goal-enabled" className="text-sm text-dark-text">Track a daily goal</Label>
+            <Switch
+              id="daily-goal-enabled"
+              checked={dailyGoalTarget > 0}
+              onCheckedChange={(checked) => onChangeSettings({ ...settings, dailyGoalTarget: checked ? limits.fallback : 0 })}
+            />
+          </div>
+
+          {dailyGoalTarget > 0 && (
+            <>
+              <ToggleGroup type="single" value={dailyGoalType} onValueChange={changeType} className="mt-3">
+                <ToggleGroupItem value="minutes" className="text-xs h-8">Focus minutes</ToggleGroupItem>
+                <ToggleGroupItem value="sessions" className="text-xs h-8">Completed sessions</ToggleGroupItem>
+              </ToggleGroup>
+
+              <div className="flex items-center justify-center gap-2 mt-3">
+                <Button variant="outline" size="icon" onClick={() => changeTarget(dailyGoalTarget - limits.step)} disabled={dailyGoalTarget <= limits.min} className="rounded-full bg-muted/30 hover:bg-muted/50 h-7 w-7">
+                  <Minus size={14} />
+                </Button>
+                <div className="flex items-baseline">
+                  <span className="font-bold text-focus-purple text-base">{dailyGoalTarget}</span>
+                  <span className="text-xs ml-0.5 text-focus-purple">{unit}</span>
+                </div>
+                <Button variant="outline" size="icon" onClick={() => changeTarget(dailyGoalTarget + limits.step)} disabled={dailyGoalTarget >= limits.max} className="rounded-full bg-muted/30 hover:bg-muted/50 h-7 w-7">
+                  <Plus size={14} />
+                </Button>
+              </div>
+            </>
+          )}
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+};
+
+export default DailyGoalCard;
@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { CalendarDays, Download, FileJson, FileSpreadsheet } from "lucide-react";
+import { toast } from "sonner";
+import { SessionRecord, Task } from "@/types";
+import { ExportFormat, buildSessionExport, filterSessionRecords, getRecordTags } from "@/utils/exportUtils";
+import { downloadFile } from "@/utils/fileUtils";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
+
+interface ExportHistoryDialogProps {
+  records: SessionRecord[];
+  tasks: Task[];
+}
+
+const ALL_TAGS = "__all__";
+
+const toDateInput = (date: Date | null): string => (date ? format(date, "yyyy-MM-dd") : "");
+const fromDateInput = (value: string): Date | null => (value ? parseISO(value) : null);
+
+const ExportHistoryDialog: React.FC<ExportHistoryDialogProps> = ({ records, tasks }) => {
+  const [from, setFrom] = useState<Date | null>(null);
+  const [to, setTo] = useState<Date | null>(null);
+  const [tag, setTag] = useState<string | null>(null);
+
+  const tags = useMemo(() => getRecordTags(records, tasks), [records, tasks]);
+  const selected = useMemo(
+    () => filterSessionRecords(records, tasks, { from, to, tag }),
+    [records, tasks, from, to, tag]
+  );
+  const focusBlocks = selected.filter((record) => record.mode === "focus").length;
+
+  const handleExport = (exportFormat: ExportFormat) => {
+    const { filename, content, mimeType } = buildSessionExport(exportFormat, selected, tasks);
+    downloadFile(filename, content, mimeType);
+    toast.success(`Exported ${exportFormat === "ics" ? focusBlocks : selected.length} sessions`);
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="ml-auto h-7 rounded-full text-xs border-gray-300 text-gray-700 px-3">
+          <Download size={14} className="mr-1 text-focus-purple" /> Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Export sessions</DialogTitle>
+          <DialogDescription>Files are created on this device from your local history.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="export-from" className="text-xs">From</Label>
+            <Input id="export-from" type="date" value={toDateInput(from)} onChange={(e) => setFrom(fromDateInput(e.target.value))} className="h-8 text-sm" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="export-to" className="text-xs">To</Label>
+            <Input id="export-to" type="date" value={toDateInput(to)} onChange={(e) => setTo(fromDateInput(e.target.value))} className="h-8 text-sm" />
+          </div>
+        </div>
+
+        <div className="space-y-1">
+          <Label htmlFor="export-tag" className="text-xs">Project</Label>
+          <Select value={tag ?? ALL_TAGS} onValueChange={(value) => setTag(value === ALL_TAGS ? null : value)}>
+            <SelectTrigger id="export-tag" className="h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_TAGS}>All projects</SelectItem>
+              {tags.map((name) => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          {selected.length} session{selected.length !== 1 ? "s" : ""} selected, {focusBlocks} of them focus blocks
+        </p>
+
+        <div className="grid grid-cols-3 gap-2">
+          <Button variant="outline" onClick={() => handleExport("csv")} disabled={selected.length === 0} className="h-9 rounded-full text-xs">
+            <FileSpreadsheet size={14} className="mr-1" /> CSV
+          </Button>
+          <Button variant="outline" onClick={() => handleExport("json")} disabled={selected.length === 0} className="h-9 rounded-full text-xs">
+            <FileJson size={14} className="mr-1" /> JSON
+          </Button>
+          <Button variant="outline" onClick={() => handleExport("ics")} disabled={focusBlocks === 0} className="h-9 rounded-full text-xs">
+            <CalendarDays size={14} className="mr-1" /> Calendar
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportHistoryDialog;
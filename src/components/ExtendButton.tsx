@@ -0,0 +1,39 @@
+import React from "react";
+import { AlarmClockPlus } from "lucide-react";
+import { TimerState } from "@/types";
+import { BREAK_EXTENSION_MINUTES, FOCUS_EXTENSION_MINUTES, isBreakMode } from "@/utils/timerUtils";
+import { Button } from "./ui/button";
+
+interface ExtendButtonProps {
+  timerState: TimerState;
+  extensionsLeft: number;
+  onExtend: (minutes: number) => void;
+}
+
+// "+5 min" during focus, "+1 min" during a break
+const ExtendButton: React.FC<ExtendButtonProps> = ({
+  timerState,
+  extensionsLeft,
+  onExtend
+}) => {
+  // Only a phase under way can be extended
+  if (!timerState.currentPhase || timerState.overtime) return null;
+
+  const onBreak = isBreakMode(timerState.mode);
+  const minutes = onBreak ? BREAK_EXTENSION_MINUTES : FOCUS_EXTENSION_MINUTES;
+
+  return (
+    <Button
+      variant="outline"
+      onClick={() => onExtend(minutes)}
+      disabled={extensionsLeft <= 0}
+      className="border-gray-300 text-gray-700 px-4 py-1.5 rounded-full text-xs h-8"
+      title={extensionsLeft > 0 ? `${extensionsLeft} left this ${onBreak ? 'break' : 'session'}` : "No more extensions this phase"}
+    >
+      <AlarmClockPlus size={14} className="mr-1 text-focus-purple" />
+      +{minutes} min
+    </Button>
+  );
+};
+
+export default ExtendButton;
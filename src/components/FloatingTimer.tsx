@@ -1,53 +1,135 @@
 
 import React from "react";
-import { formatTime } from "@/utils/timerUtils";
-import { TimerState } from "@/types";
-import { Timer as TimerIcon, Coffee } from "lucide-react";
+import { BREAK_EXTENSION_MINUTES, FOCUS_EXTENSION_MINUTES, formatTime, isBreakMode } from "@/utils/timerUtils";
+import { TimerSettings, TimerState } from "@/types";
+import { Timer as TimerIcon, Coffee, Bookmark, Check, AlarmClockPlus, AlarmClock } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useCountdown, useElapsed } from "@/hooks/useCountdown";
+import { applyPreset, findMatchingPreset, getAllPresets } from "@/utils/presetUtils";
+import { NOTIFICATION_SNOOZE_MINUTES } from "@/utils/notificationUtils";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger
+} from "./ui/dropdown-menu";
 
 interface FloatingTimerProps {
   isOpen: boolean;
   timerState: TimerState;
   togglePopup: () => void;
+  settings?: TimerSettings;
+  onChangeSettings?: (settings: TimerSettings) => void;
+  onExtend?: (minutes: number) => void;
+  extensionsLeft?: number;
+  onSnooze?: (minutes: number) => void;
+  snoozesLeft?: number;
 }
 
 const FloatingTimer: React.FC<FloatingTimerProps> = ({
   isOpen,
   timerState,
-  togglePopup
+  togglePopup,
+  settings,
+  onChangeSettings,
+  onExtend,
+  extensionsLeft = 0,
+  onSnooze,
+  snoozesLeft = 0
 }) => {
-  const { timeRemaining, isRunning, mode, completed } = timerState;
+  const { timeRemaining, isRunning, mode, completed, autoStartAt, overtime, endsAt } = timerState;
+  const overtimeSeconds = useElapsed(overtime ? endsAt : null);
   
-  const isTimerActive = isRunning && !isOpen;
+  // Seconds until the next phase starts on its own
+  const autoStartIn = useCountdown(isRunning ? null : autoStartAt);
+  const isCountingDown = autoStartIn > 0 && !isOpen;
+  
+  const isTimerActive = (isRunning || autoStartIn > 0) && !isOpen;
   
   // Always use purple for all modes
   const timerColor = 'bg-focus-purple hover:bg-focus-purple-dark';
   
+  const activePreset = settings ? findMatchingPreset(settings) : null;
+  const extendMinutes = isBreakMode(mode) ? BREAK_EXTENSION_MINUTES : FOCUS_EXTENSION_MINUTES;
+  const canExtend = onExtend && isRunning && !overtime && !isOpen && extensionsLeft > 0;
+  // Putting off the next phase is offered while it counts down
+  const showSnooze = onSnooze && isCountingDown;
+  
   return (
-    <button 
-      onClick={togglePopup}
-      className={cn(
-        "fixed bottom-6 right-6 z-[10000] shadow-lg flex items-center justify-center transition-all duration-300 rounded-full",
-        isTimerActive 
-          ? `${timerColor} w-auto min-w-[110px] h-14 px-4` 
-          : `${timerColor} w-14 h-14`
+    <>
+      {canExtend && (
+        <button
+          onClick={() => onExtend(extendMinutes)}
+          className="fixed bottom-[8.5rem] right-8 z-[10000] h-10 px-3 rounded-full bg-white shadow-md flex items-center justify-center text-focus-purple text-xs font-semibold hover:bg-gray-100 transition-colors"
+          aria-label={isBreakMode(mode) ? `Add ${extendMinutes} minute to the break` : `Add ${extendMinutes} minutes`}
+        >
+          <AlarmClockPlus size={16} className="mr-1" />
+          +{extendMinutes}
+        </button>
+      )}
+      {showSnooze && (
+        <button
+          onClick={() => onSnooze(NOTIFICATION_SNOOZE_MINUTES)}
+          disabled={snoozesLeft <= 0}
+          className={cn(
+            "fixed right-8 z-[10000] h-10 px-3 rounded-full bg-white shadow-md flex items-center justify-center text-focus-purple text-xs font-semibold hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:pointer-events-none",
+            settings && onChangeSettings ? "bottom-[8.5rem]" : "bottom-[5.5rem]"
+          )}
+          aria-label={snoozesLeft > 0 ? `Snooze the ${isBreakMode(mode) ? "break" : "focus session"} for ${NOTIFICATION_SNOOZE_MINUTES} minutes` : "No more snoozes for this phase"}
+        >
+          <AlarmClock size={16} className="mr-1" />
+          Snooze
+        </button>
       )}
-      aria-label={isOpen ? "Close Focus Timer" : "Open Focus Timer"}
-    >
-      {isTimerActive ? (
-        <div className="font-mono font-bold text-white text-xl tracking-wider flex items-center">
-          {mode === 'break' ? 
-            <Coffee size={20} className="text-white mr-2" /> : 
-            <TimerIcon size={20} className="text-white mr-2" />
-          }
-          {formatTime(timeRemaining)}
-        </div>
-      ) : (
-        mode === 'break' ? 
-          <Coffee size={24} className="text-white" /> :
-          <TimerIcon size={24} className="text-white" />
+      {settings && onChangeSettings && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              className="fixed bottom-[5.5rem] right-8 z-[10000] w-10 h-10 rounded-full bg-white shadow-md flex items-center justify-center text-focus-purple hover:bg-gray-100 transition-colors"
+              aria-label={`Switch preset${activePreset ? ` (current: ${activePreset.name})` : ''}`}
+            >
+              <Bookmark size={18} />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="left" align="end" className="w-48 z-[10001]">
+            <DropdownMenuLabel className="text-xs">Presets</DropdownMenuLabel>
+            {getAllPresets(settings).map((preset) => (
+              <DropdownMenuItem key={preset.id} onSelect={() => onChangeSettings(applyPreset(settings, preset))} className="text-sm">
+                <Check size={14} className={`mr-2 ${preset.id === activePreset?.id ? 'opacity-100' : 'opacity-0'}`} />
+                {preset.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
       )}
-    </button>
+      <button 
+        onClick={togglePopup}
+        className={cn(
+          "fixed bottom-6 right-6 z-[10000] shadow-lg flex items-center justify-center transition-all duration-300 rounded-full",
+          isTimerActive 
+            ? `${timerColor} w-auto min-w-[110px] h-14 px-4` 
+            : `${timerColor} w-14 h-14`
+        )}
+        aria-label={isOpen ? "Close Focus Timer" : isCountingDown ? `${isBreakMode(mode) ? "Break" : "Focus"} starts in ${autoStartIn} seconds. Open Focus Timer to cancel` : "Open Focus Timer"}
+      >
+        {isTimerActive ? (
+          <div className="font-mono font-bold text-white text-xl tracking-wider flex items-center">
+            {isBreakMode(mode) ? 
+              <Coffee size={20} className="text-white mr-2" /> : 
+              <TimerIcon size={20} className="text-white mr-2" />
+            }
+            {isCountingDown
+              ? `in ${autoStartIn}s`
+              : overtime ? `+${formatTime(overtimeSeconds)}` : formatTime(timeRemaining)}
+          </div>
+        ) : (
+          isBreakMode(mode) ? 
+            <Coffee size={24} className="text-white" /> :
+            <TimerIcon size={24} className="text-white" />
+        )}
+      </button>
+    </>
   );
 };
 
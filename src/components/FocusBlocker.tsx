@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from "react";
+import { ShieldBan } from "lucide-react";
+import { useFocusBlocker } from "@/hooks/useFocusBlocker";
+import { useCountdown, useElapsed } from "@/hooks/useCountdown";
+import { formatTime } from "@/utils/timerUtils";
+import { MIN_UNLOCK_REASON_LENGTH } from "@/utils/blockingUtils";
+import { Button } from "./ui/button";
+import { Textarea } from "./ui/textarea";
+
+// Full-page cover for blocked sites during focus, mounted by the content script
+const FocusBlocker: React.FC = () => {
+  const { blocked, timerState, taskTitle, unlockMinutes, unlock } = useFocusBlocker();
+  const [showUnlock, setShowUnlock] = useState(false);
+  const [reason, setReason] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const running = Boolean(blocked && timerState);
+  const secondsLeft = useCountdown(running && !timerState?.overtime ? timerState?.endsAt ?? null : null);
+  const overtimeSeconds = useElapsed(running && timerState?.overtime ? timerState.endsAt : null);
+
+  // Keep the page underneath from scrolling, and start over each time it blocks
+  useEffect(() => {
+    if (!blocked) return;
+
+    const { overflow } = document.documentElement.style;
+    document.documentElement.style.overflow = "hidden";
+    setShowUnlock(false);
+    setReason("");
+    setError(null);
+    return () => {
+      document.documentElement.style.overflow = overflow;
+    };
+  }, [blocked]);
+
+  if (!blocked || !timerState) return null;
+
+  const handleUnlock = async () => {
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlock(reason);
+    } catch (unlockError) {
+      console.error("Error unlocking site:", unlockError);
+      setError("Could not unlock the site. Try again.");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const reasonReady = reason.trim().length >= MIN_UNLOCK_REASON_LENGTH;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="focusflow-blocker-title"
+      className="fixed inset-0 z-[2147483647] flex items-center justify-center bg-white/95 p-6 font-sans backdrop-blur-sm"
+    >
+      <div className="w-full max-w-md rounded-2xl border border-gray-200 bg-white p-8 text-center shadow-xl">
+        <ShieldBan size={40} className="mx-auto mb-3 text-focus-purple" />
+        <h1 id="focusflow-blocker-title" className="text-2xl font-bold text-dark-text">Back to focus</h1>
+        <p className="mt-1 text-sm text-gray-500">{window.location.hostname} is blocked while you focus.</p>
+
+        <div className="my-6 text-5xl font-bold tabular-nums text-focus-purple">
+          {timerState.overtime ? `+${formatTime(overtimeSeconds)}` : formatTime(secondsLeft)}
+        </div>
+        {taskTitle && (
+          <p className="mb-6 text-sm text-dark-text">
+            Working on <span className="font-semibold">{taskTitle}</span>
+          </p>
+        )}
+
+        {showUnlock ? (
+          <div className="space-y-3 text-left">
+            <Textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why do you need this site right now?"
+              className="min-h-20 text-sm"
+              autoFocus
+            />
+            {error && <p className="text-xs text-red-600">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setShowUnlock(false)} className="rounded-full">
+                Cancel
+              </Button>
+              <Button
+                onClick={handleUnlock}
+                disabled={!reasonReady || isUnlocking}
+                className="rounded-full bg-focus-purple text-white hover:bg-focus-purple-dark"
+              >
+                Unlock for {unlockMinutes} min
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">The reason is logged as an interruption of this session.</p>
+          </div>
+        ) : (
+          <div className="flex justify-center gap-2">
+            <Button
+              onClick={() => window.history.back()}
+              className="rounded-full bg-focus-purple text-white hover:bg-focus-purple-dark"
+            >
+              Go back
+            </Button>
+            <Button variant="outline" onClick={() => setShowUnlock(true)} className="rounded-full">
+              I need this site
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FocusBlocker;
@@ -1,11 +1,33 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import Timer from "./Timer";
-import { TimerState } from "@/types";
-import { minutesToSeconds } from "@/utils/timerUtils";
-import { Clock, Minus, Plus, ChevronRight, ChevronDown, ChevronUp } from "lucide-react";
+import { InterruptionReason, TimerSettings, TimerState } from "@/types";
+import { getExtensionsLeft, getFocusLength, getSnoozesLeft, getProportionalBreakDuration, minutesToSeconds } from "@/utils/timerUtils";
+import SettingsDialog from "./SettingsDialog";
+import TaskList from "./TaskList";
+import AutoStartCountdown from "./AutoStartCountdown";
+import PresetSelector from "./PresetSelector";
+import InterruptionPicker from "./InterruptionPicker";
+import ExtendButton from "./ExtendButton";
+import IdlePrompt from "./IdlePrompt";
+import { getPendingIdle } from "@/utils/sessionHistory";
+import { MAX_BREAK_MINUTES, MAX_FOCUS_MINUTES, MAX_LONG_BREAK_MINUTES } from "@/utils/settingsSchema";
+import DailyGoalCard from "./DailyGoalCard";
+import WorkScheduleCard from "./WorkScheduleCard";
+import BreakRuleControls from "./BreakRuleControls";
+import { useDailyGoal } from "@/hooks/useDailyGoal";
+import { Clock, Minus, Plus, ChevronRight, ChevronDown, ChevronUp, SkipForward } from "lucide-react";
 import { Button } from "./ui/button";
 import { Input } from "./ui/input";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
+import { Switch } from "./ui/switch";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+
+type AutoStartSettings = Pick<TimerSettings, 'autoStartBreaks' | 'autoStartFocus' | 'autoStartDelay'>;
+
+// Grace periods offered before a phase starts on its own, in seconds
+const AUTO_START_DELAYS = [0, 5, 10, 15, 30];
+
 interface FocusModeProps {
   timerState: TimerState;
   onStart: () => void;
@@ -13,8 +35,23 @@ interface FocusModeProps {
   onReset: () => void;
   focusDuration: number;
   breakDuration: number;
+  longBreakDuration: number;
+  sessionsBeforeLongBreak: number;
   onChangeFocusDuration: (duration: number) => void;
   onChangeBreakDuration: (duration: number) => void;
+  onChangeLongBreakDuration: (duration: number) => void;
+  onSelectTask: (taskId: string | null) => void;
+  autoStart: AutoStartSettings;
+  onChangeAutoStart: (changes: Partial<AutoStartSettings>) => void;
+  onCancelAutoStart: () => void;
+  onSnooze: (minutes: number) => void;
+  onFinishFocus: () => void;
+  onLabelPause: (reason: InterruptionReason, note?: string) => void;
+  onExtend: (minutes: number) => void;
+  onSkip: () => void;
+  onResolveIdle: (keep: boolean) => void;
+  settings: TimerSettings;
+  onChangeSettings: (settings: TimerSettings) => void;
 }
 const FocusMode: React.FC<FocusModeProps> = ({
   timerState,
@@ -23,13 +60,55 @@ const FocusMode: React.FC<FocusModeProps> = ({
   onReset,
   focusDuration,
   breakDuration,
+  longBreakDuration,
+  sessionsBeforeLongBreak,
   onChangeFocusDuration,
-  onChangeBreakDuration
+  onChangeBreakDuration,
+  onChangeLongBreakDuration,
+  onSelectTask,
+  autoStart,
+  onChangeAutoStart,
+  onCancelAutoStart,
+  onSnooze,
+  onFinishFocus,
+  onLabelPause,
+  onExtend,
+  onSkip,
+  onResolveIdle,
+  settings,
+  onChangeSettings
 }) => {
   const totalDuration = minutesToSeconds(focusDuration);
   const [inputValue, setInputValue] = useState(focusDuration.toString());
   const [breakInputValue, setBreakInputValue] = useState(breakDuration.toString());
   const [isBreakOpen, setIsBreakOpen] = useState(false);
+  const currentSession = Math.min(timerState.sessionCount + 1, sessionsBeforeLongBreak);
+  const proportionalBreak = settings.breakRule.type === "proportional";
+  // The break the current focus phase earns if it runs to its end, counting
+  // extensions and overtime. Pauses and skipping early earn less.
+  const focusSeconds = getFocusLength(timerState, settings);
+  const focusMinutes = Math.round(focusSeconds / 60);
+  const nextBreakMinutes = proportionalBreak
+    ? Math.round(getProportionalBreakDuration(focusSeconds, settings.breakRule) / 60)
+    : breakDuration;
+  const { progress: goalProgress, streak: goalStreak } = useDailyGoal({ settings, onChangeSettings });
+
+  // Ask for a reason while a focus session is paused, until answered or dismissed
+  const [dismissedPauseAt, setDismissedPauseAt] = useState<number | null>(null);
+  const pauses = timerState.currentPhase?.pauses || [];
+  const openPause = pauses.find((pause) => pause.endedAt === null);
+  // Coming back from being away is answered first
+  const pendingIdle = getPendingIdle(timerState.currentPhase);
+  const showInterruptionPicker = timerState.mode === "focus" && !timerState.isRunning && openPause !== undefined &&
+    !openPause.reason && openPause.startedAt !== dismissedPauseAt && !pendingIdle;
+
+  // Keep the inputs in step when durations change elsewhere, e.g. from a preset
+  useEffect(() => {
+    setInputValue(focusDuration.toString());
+  }, [focusDuration]);
+  useEffect(() => {
+    setBreakInputValue(breakDuration.toString());
+  }, [breakDuration]);
   const decreaseFocusDuration = () => {
     if (focusDuration > 1) {
       const newDuration = focusDuration - 1;
@@ -38,8 +117,7 @@ const FocusMode: React.FC<FocusModeProps> = ({
     }
   };
   const increaseFocusDuration = () => {
-    if (focusDuration < 120) {
-      // Changed from 60 to 120
+    if (focusDuration < MAX_FOCUS_MINUTES) {
       const newDuration = focusDuration + 1;
       onChangeFocusDuration(newDuration);
       setInputValue(newDuration.toString());
@@ -50,8 +128,7 @@ const FocusMode: React.FC<FocusModeProps> = ({
   };
   const handleInputBlur = () => {
     const newValue = parseInt(inputValue);
-    if (!isNaN(newValue) && newValue >= 1 && newValue <= 120) {
-      // Changed from 60 to 120
+    if (!isNaN(newValue) && newValue >= 1 && newValue <= MAX_FOCUS_MINUTES) {
       onChangeFocusDuration(newValue);
     } else {
       setInputValue(focusDuration.toString());
@@ -70,7 +147,7 @@ const FocusMode: React.FC<FocusModeProps> = ({
     }
   };
   const increaseBreakDuration = () => {
-    if (breakDuration < 15) {
+    if (breakDuration < MAX_BREAK_MINUTES) {
       const newDuration = breakDuration + 1;
       onChangeBreakDuration(newDuration);
       setBreakInputValue(newDuration.toString());
@@ -81,7 +158,7 @@ const FocusMode: React.FC<FocusModeProps> = ({
   };
   const handleBreakInputBlur = () => {
     const newValue = parseInt(breakInputValue);
-    if (!isNaN(newValue) && newValue >= 1 && newValue <= 15) {
+    if (!isNaN(newValue) && newValue >= 1 && newValue <= MAX_BREAK_MINUTES) {
       onChangeBreakDuration(newValue);
     } else {
       setBreakInputValue(breakDuration.toString());
@@ -92,18 +169,55 @@ const FocusMode: React.FC<FocusModeProps> = ({
       e.currentTarget.blur();
     }
   };
+  const decreaseLongBreakDuration = () => {
+    if (longBreakDuration > 1) {
+      onChangeLongBreakDuration(longBreakDuration - 1);
+    }
+  };
+  const increaseLongBreakDuration = () => {
+    if (longBreakDuration < MAX_LONG_BREAK_MINUTES) {
+      onChangeLongBreakDuration(longBreakDuration + 1);
+    }
+  };
   return <>
       <div className="focus-card p-4 w-full animate-scale-in bg-gray-100 bg-opacity-80 backdrop-blur-md rounded-xl shadow-md transition-all duration-300 hover:shadow-lg">
         <div className="text-center mb-2">
           <div className="flex items-center justify-left">
             <Clock className="text-focus-purple mr-2" size={18} />
             <h2 className="text-lg text-dark-text font-semibold">Focus Timer</h2>
+            <SettingsDialog settings={settings} onChangeSettings={onChangeSettings} />
+          </div>
+          <p className="text-xs text-muted-foreground text-left">The maximum focus time is {MAX_FOCUS_MINUTES} minutes for optimal workflow without exhaustion.</p>
+          <div className="flex justify-start mt-2">
+            <PresetSelector settings={settings} onChangeSettings={onChangeSettings} />
           </div>
-          <p className="text-xs text-muted-foreground text-left">The maximum focus time is 120 minutes for optimal workflow without exhaustion.</p>
         </div>
         
         <div className="relative">
-          <Timer timerState={timerState} totalDuration={totalDuration} />
+          <Timer timerState={timerState} totalDuration={totalDuration} goalProgress={goalProgress ? goalProgress.ratio : null} />
+          <p className="text-xs text-center text-muted-foreground mb-1">
+            Session {currentSession} of {sessionsBeforeLongBreak}
+          </p>
+          {pauses.length > 0 && (
+            <p className="text-xs text-center text-muted-foreground mb-1">
+              Interrupted {pauses.length} time{pauses.length !== 1 ? 's' : ''} this session
+            </p>
+          )}
+          {pendingIdle && <IdlePrompt period={pendingIdle} onResolve={onResolveIdle} />}
+          {showInterruptionPicker && (
+            <InterruptionPicker
+              pause={openPause}
+              onSelectReason={onLabelPause}
+              onDismiss={() => setDismissedPauseAt(openPause.startedAt)}
+            />
+          )}
+          <AutoStartCountdown
+            autoStartAt={timerState.isRunning ? null : timerState.autoStartAt}
+            mode={timerState.mode}
+            onCancel={onCancelAutoStart}
+            snoozesLeft={getSnoozesLeft(timerState, settings)}
+            onSnooze={onSnooze}
+          />
           
           <div className="mt-0 text-center">
             <div className="flex items-center justify-center gap-2">
@@ -118,7 +232,7 @@ const FocusMode: React.FC<FocusModeProps> = ({
                 </div>
               </div>
               
-              <Button variant="outline" size="icon" onClick={increaseFocusDuration} disabled={focusDuration >= 120 || timerState.isRunning} className="rounded-full bg-muted/30 hover:bg-muted/50 h-7 w-7">
+              <Button variant="outline" size="icon" onClick={increaseFocusDuration} disabled={focusDuration >= MAX_FOCUS_MINUTES || timerState.isRunning} className="rounded-full bg-muted/30 hover:bg-muted/50 h-7 w-7">
                 <Plus size={14} />
               </Button>
             </div>
@@ -130,12 +244,33 @@ const FocusMode: React.FC<FocusModeProps> = ({
             Reset <ChevronRight size={16} className="ml-1" />
           </Button>
           
-          <Button onClick={timerState.isRunning ? onPause : onStart} className="bg-focus-purple hover:bg-focus-purple-dark text-white font-semibold px-6 py-1.5 rounded-full text-sm h-9">
-            {timerState.isRunning ? "Pause" : "Start"} <ChevronRight size={16} className="ml-1" />
-          </Button>
+          {timerState.overtime ? (
+            <Button onClick={onFinishFocus} className="bg-focus-purple hover:bg-focus-purple-dark text-white font-semibold px-6 py-1.5 rounded-full text-sm h-9">
+              Take a break <ChevronRight size={16} className="ml-1" />
+            </Button>
+          ) : (
+            <Button onClick={timerState.isRunning ? onPause : onStart} className="bg-focus-purple hover:bg-focus-purple-dark text-white font-semibold px-6 py-1.5 rounded-full text-sm h-9">
+              {timerState.isRunning ? "Pause" : "Start"} <ChevronRight size={16} className="ml-1" />
+            </Button>
+          )}
+        </div>
+
+        <div className="flex justify-center gap-2">
+          <ExtendButton timerState={timerState} extensionsLeft={getExtensionsLeft(timerState, settings)} onExtend={onExtend} />
+          {timerState.currentPhase && (
+            <Button variant="outline" onClick={onSkip} className="border-gray-300 text-gray-700 px-4 py-1.5 rounded-full text-xs h-8">
+              <SkipForward size={14} className="mr-1 text-focus-purple" /> Skip to break
+            </Button>
+          )}
         </div>
       </div>
 
+      <TaskList activeTaskId={timerState.activeTaskId} onSelectTask={onSelectTask} />
+
+      <DailyGoalCard settings={settings} onChangeSettings={onChangeSettings} progress={goalProgress} streak={goalStreak} />
+
+      <WorkScheduleCard settings={settings} onChangeSettings={onChangeSettings} />
+
       <div className="focus-card p-4 w-full mt-6 animate-scale-in bg-gray-100 bg-opacity-80 backdrop-blur-md rounded-xl shadow-md transition-all duration-300 hover:shadow-lg">
         <Collapsible open={isBreakOpen} onOpenChange={setIsBreakOpen} className="w-full">
           <CollapsibleTrigger className="flex items-center justify-between w-full text-left">
@@ -144,32 +279,109 @@ const FocusMode: React.FC<FocusModeProps> = ({
               <h2 className="text-lg text-dark-text font-semibold">Break Duration</h2>
             </div>
             <div className="flex items-center">
-              <span className="text-sm mr-2 text-dark-text">{breakDuration} min</span>
+              <span className="text-sm mr-2 text-dark-text">{nextBreakMinutes} min</span>
               {isBreakOpen ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
             </div>
           </CollapsibleTrigger>
           
           <CollapsibleContent className="pt-2 transition-all data-[state=closed]:animate-accordion-up data-[state=open]:animate-accordion-down">
-            <p className="text-xs text-muted-foreground mb-4">The maximum break is 15 minutes, starting automatically when focus time ends.</p>
-            
+            <div className="flex items-center justify-between mb-2">
+              <Label htmlFor="proportional-break" className="text-sm text-dark-text">Break in proportion to focus</Label>
+              <Switch
+                id="proportional-break"
+                checked={proportionalBreak}
+                onCheckedChange={(checked) => onChangeSettings({ ...settings, breakRule: { ...settings.breakRule, type: checked ? "proportional" : "fixed" } })}
+              />
+            </div>
+
+            {proportionalBreak ? (
+              <>
+                <p className="text-xs text-muted-foreground mb-4">
+                  {focusMinutes} minutes of focus earn a {nextBreakMinutes} minute break{autoStart.autoStartBreaks ? ", starting automatically when focus time ends" : ""}.
+                </p>
+                <BreakRuleControls
+                  rule={settings.breakRule}
+                  onChangeRule={(breakRule) => onChangeSettings({ ...settings, breakRule })}
+                  disabled={timerState.isRunning && timerState.mode !== "focus"}
+                />
+              </>
+            ) : (
+              <>
+                <p className="text-xs text-muted-foreground mb-4">
+                  The maximum break is {MAX_BREAK_MINUTES} minutes{autoStart.autoStartBreaks ? ", starting automatically when focus time ends" : ""}.
+                </p>
+
+                <div className="mt-2 text-center">
+                  <div className="flex items-center justify-center gap-2">
+                    <Button variant="outline" size="icon" onClick={decreaseBreakDuration} disabled={breakDuration <= 1 || timerState.isRunning} className="rounded-full bg-muted/30 hover:bg-muted/50 h-7 w-7">
+                      <Minus size={14} />
+                    </Button>
+
+                    <div className="flex items-baseline">
+                      <div className="relative w-12 text-center">
+                        <Input type="text" value={breakInputValue} onChange={handleBreakInputChange} onBlur={handleBreakInputBlur} onKeyDown={handleBreakKeyDown} disabled={timerState.isRunning} className="w-full text-center font-bold text-focus-purple text-base px-0 py-0.5 border-none focus:ring-0 focus:outline-none h-7" />
+                        <span className="text-xs ml-0.5 text-focus-purple">min</span>
+                      </div>
+                    </div>
+
+                    <Button variant="outline" size="icon" onClick={increaseBreakDuration} disabled={breakDuration >= MAX_BREAK_MINUTES || timerState.isRunning} className="rounded-full bg-muted/30 hover:bg-muted/50 h-7 w-7">
+                      <Plus size={14} />
+                    </Button>
+                  </div>
+                </div>
+              </>
+            )}
+
+            <p className="text-xs text-muted-foreground mt-4 mb-2">After every {sessionsBeforeLongBreak} focus sessions you get a long break of up to {MAX_LONG_BREAK_MINUTES} minutes.</p>
+
             <div className="mt-2 text-center">
               <div className="flex items-center justify-center gap-2">
-                <Button variant="outline" size="icon" onClick={decreaseBreakDuration} disabled={breakDuration <= 1 || timerState.isRunning} className="rounded-full bg-muted/30 hover:bg-muted/50 h-7 w-7">
+                <Button variant="outline" size="icon" onClick={decreaseLongBreakDuration} disabled={longBreakDuration <= 1 || timerState.isRunning} className="rounded-full bg-muted/30 hover:bg-muted/50 h-7 w-7">
                   <Minus size={14} />
                 </Button>
-                
+
                 <div className="flex items-baseline">
                   <div className="relative w-12 text-center">
-                    <Input type="text" value={breakInputValue} onChange={handleBreakInputChange} onBlur={handleBreakInputBlur} onKeyDown={handleBreakKeyDown} disabled={timerState.isRunning} className="w-full text-center font-bold text-focus-purple text-base px-0 py-0.5 border-none focus:ring-0 focus:outline-none h-7" />
+                    <span className="font-bold text-focus-purple text-base">{longBreakDuration}</span>
                     <span className="text-xs ml-0.5 text-focus-purple">min</span>
                   </div>
                 </div>
-                
-                <Button variant="outline" size="icon" onClick={increaseBreakDuration} disabled={breakDuration >= 15 || timerState.isRunning} className="rounded-full bg-muted/30 hover:bg-muted/50 h-7 w-7">
+
+                <Button variant="outline" size="icon" onClick={increaseLongBreakDuration} disabled={longBreakDuration >= MAX_LONG_BREAK_MINUTES || timerState.isRunning} className="rounded-full bg-muted/30 hover:bg-muted/50 h-7 w-7">
                   <Plus size={14} />
                 </Button>
               </div>
             </div>
+
+            <div className="mt-4 space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="auto-start-breaks" className="text-sm text-dark-text">Start breaks automatically</Label>
+                <Switch id="auto-start-breaks" checked={autoStart.autoStartBreaks} onCheckedChange={(checked) => onChangeAutoStart({ autoStartBreaks: checked })} />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="auto-start-focus" className="text-sm text-dark-text">Start focus automatically</Label>
+                <Switch id="auto-start-focus" checked={autoStart.autoStartFocus} onCheckedChange={(checked) => onChangeAutoStart({ autoStartFocus: checked })} />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label className="text-sm text-dark-text">Time to cancel</Label>
+                <Select
+                  value={autoStart.autoStartDelay.toString()}
+                  onValueChange={(value) => onChangeAutoStart({ autoStartDelay: parseInt(value) })}
+                  disabled={!autoStart.autoStartBreaks && !autoStart.autoStartFocus}
+                >
+                  <SelectTrigger className="w-28 h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AUTO_START_DELAYS.map((delay) => (
+                      <SelectItem key={delay} value={delay.toString()}>
+                        {delay === 0 ? "Start at once" : `${delay} seconds`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
           </CollapsibleContent>
         </Collapsible>
       </div>
@@ -0,0 +1,35 @@
+import React from "react";
+import { Coffee } from "lucide-react";
+import { IdlePeriod } from "@/types";
+import { Button } from "./ui/button";
+
+interface IdlePromptProps {
+  period: IdlePeriod;
+  onResolve: (keep: boolean) => void;
+}
+
+const IdlePrompt: React.FC<IdlePromptProps> = ({ period, onResolve }) => {
+  const minutesAway = Math.max(1, Math.round(((period.endedAt ?? Date.now()) - period.startedAt) / 60000));
+
+  return (
+    <div className="bg-white bg-opacity-80 rounded-lg shadow-sm p-3 my-2 animate-fade-in" role="status">
+      <p className="text-sm text-dark-text font-medium flex items-center">
+        <Coffee size={14} className="text-focus-purple mr-1.5" />
+        You were away for {minutesAway} min
+      </p>
+      <p className="text-xs text-muted-foreground mt-0.5">
+        {period.paused ? "The timer paused while you were gone." : "The timer kept running while you were gone."}
+      </p>
+      <div className="flex gap-2 mt-2">
+        <Button onClick={() => onResolve(true)} className="bg-focus-purple hover:bg-focus-purple-dark text-white rounded-full h-7 px-3 text-xs">
+          I was working, keep it
+        </Button>
+        <Button variant="outline" onClick={() => onResolve(false)} className="rounded-full h-7 px-3 text-xs border-gray-300">
+          Discard this time
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default IdlePrompt;
@@ -0,0 +1,89 @@
+import React, { useState } from "react";
+import { Briefcase, MessageCircle, Smartphone, Brain, PenLine, X } from "lucide-react";
+import { InterruptionReason, TimerPause } from "@/types";
+import { INTERRUPTION_REASONS, INTERRUPTION_REASON_LABELS } from "@/utils/interruptionUtils";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { cn } from "@/lib/utils";
+
+interface InterruptionPickerProps {
+  pause: TimerPause;
+  onSelectReason: (reason: InterruptionReason, note?: string) => void;
+  onDismiss: () => void;
+}
+
+const reasonIcons: Record<InterruptionReason, React.ReactNode> = {
+  meeting: <Briefcase size={14} />,
+  colleague: <MessageCircle size={14} />,
+  phone: <Smartphone size={14} />,
+  distraction: <Brain size={14} />,
+  custom: <PenLine size={14} />,
+};
+
+const InterruptionPicker: React.FC<InterruptionPickerProps> = ({
+  pause,
+  onSelectReason,
+  onDismiss
+}) => {
+  const [isCustomOpen, setIsCustomOpen] = useState(false);
+  const [note, setNote] = useState(pause.note || "");
+
+  const handleSelect = (reason: InterruptionReason) => {
+    if (reason === "custom") {
+      setIsCustomOpen(true);
+      return;
+    }
+    onSelectReason(reason);
+  };
+
+  const handleSaveCustom = () => {
+    onSelectReason("custom", note);
+    setIsCustomOpen(false);
+  };
+
+  return (
+    <div className="bg-white bg-opacity-80 rounded-lg shadow-sm p-3 my-2 animate-fade-in">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-sm text-dark-text font-medium">What interrupted you?</p>
+        <Button variant="ghost" size="icon" onClick={onDismiss} className="h-6 w-6" aria-label="Dismiss">
+          <X size={14} />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-1.5">
+        {INTERRUPTION_REASONS.map((reason) => (
+          <Button
+            key={reason}
+            variant="outline"
+            onClick={() => handleSelect(reason)}
+            className={cn(
+              "h-7 px-2.5 rounded-full text-xs border-gray-300",
+              pause.reason === reason && "bg-focus-purple text-white border-focus-purple hover:bg-focus-purple-dark hover:text-white"
+            )}
+          >
+            {reasonIcons[reason]}
+            <span className="ml-1">{INTERRUPTION_REASON_LABELS[reason]}</span>
+          </Button>
+        ))}
+      </div>
+
+      {isCustomOpen && (
+        <div className="flex gap-2 mt-2">
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSaveCustom()}
+            placeholder="Describe the interruption"
+            className="h-8 text-sm"
+            autoFocus
+          />
+          <Button onClick={handleSaveCustom} className="bg-focus-purple hover:bg-focus-purple-dark text-white rounded-full h-8 text-xs">
+            Save
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InterruptionPicker;
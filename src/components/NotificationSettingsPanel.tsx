@@ -0,0 +1,58 @@
+import React, { useState } from "react";
+import { NotificationEvent, TimerSettings } from "@/types";
+import { isExtensionContext } from "@/utils/chromeUtils";
+import { NOTIFICATION_EVENTS, requestNotificationPermission } from "@/utils/notificationUtils";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+
+interface NotificationSettingsPanelProps {
+  settings: TimerSettings;
+  onChangeSettings: (settings: TimerSettings) => void;
+}
+
+const NotificationSettingsPanel: React.FC<NotificationSettingsPanelProps> = ({ settings, onChangeSettings }) => {
+  const inExtension = isExtensionContext();
+  const [permission, setPermission] = useState(() =>
+    !inExtension && "Notification" in window ? Notification.permission : "granted"
+  );
+
+  const changeEvent = (event: NotificationEvent, enabled: boolean) => {
+    onChangeSettings({ ...settings, notifications: { ...settings.notifications, [event]: enabled } });
+
+    // The standalone app needs the browser's permission before it can notify
+    if (enabled && permission === "default") {
+      requestNotificationPermission().then(() => setPermission(Notification.permission));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {inExtension
+          ? "Shown once by Chrome, whichever tab is open. Their buttons start, snooze or skip the next phase."
+          : "Shown in FocusFlow, and by your system while FocusFlow is in the background."}
+      </p>
+
+      <div className="space-y-2">
+        {NOTIFICATION_EVENTS.map(({ event, label }) => (
+          <div key={event} className="flex items-center justify-between">
+            <Label htmlFor={`notify-${event}`} className="text-sm text-dark-text">{label}</Label>
+            <Switch
+              id={`notify-${event}`}
+              checked={settings.notifications[event]}
+              onCheckedChange={(checked) => changeEvent(event, checked)}
+            />
+          </div>
+        ))}
+      </div>
+
+      {permission === "denied" && (
+        <p className="text-xs text-gray-500">
+          Your browser blocks notifications from this site, so only the in-app messages are shown.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default NotificationSettingsPanel;
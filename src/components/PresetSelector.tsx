@@ -0,0 +1,153 @@
+import React, { useRef, useState } from "react";
+import { Bookmark, Check, ChevronDown, Download, Plus, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { TimerSettings } from "@/types";
+import {
+  applyPreset,
+  createPreset,
+  exportPresets,
+  findMatchingPreset,
+  getAllPresets,
+  mergePresets,
+  parsePresetFile
+} from "@/utils/presetUtils";
+import { downloadFile, readFileAsText } from "@/utils/fileUtils";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "./ui/dropdown-menu";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "./ui/dialog";
+
+interface PresetSelectorProps {
+  settings: TimerSettings;
+  onChangeSettings: (settings: TimerSettings) => void;
+  disabled?: boolean;
+}
+
+const PresetSelector: React.FC<PresetSelectorProps> = ({
+  settings,
+  onChangeSettings,
+  disabled = false
+}) => {
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [presetName, setPresetName] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const activePreset = findMatchingPreset(settings);
+  const userPresets = settings.presets || [];
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+
+    const preset = createPreset(name, settings);
+    onChangeSettings({ ...settings, presets: mergePresets(userPresets, [preset]) });
+    setIsSaveOpen(false);
+    setPresetName("");
+    toast.success(`Saved preset "${name}"`);
+  };
+
+  const handleDeletePreset = (id: string) => {
+    onChangeSettings({ ...settings, presets: userPresets.filter((preset) => preset.id !== id) });
+  };
+
+  const handleExport = () => {
+    if (userPresets.length === 0) {
+      toast.error("Save a preset of your own before exporting");
+      return;
+    }
+    downloadFile("focusflow-presets.json", exportPresets(userPresets), "application/json");
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = parsePresetFile(await readFileAsText(file));
+      onChangeSettings({ ...settings, presets: mergePresets(userPresets, imported) });
+      toast.success(`Imported ${imported.length} preset${imported.length !== 1 ? 's' : ''}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not import presets");
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" disabled={disabled} className="h-8 rounded-full text-xs border-gray-300 text-gray-700 px-3">
+            <Bookmark size={14} className="mr-1 text-focus-purple" />
+            {activePreset ? activePreset.name : "Custom"}
+            <ChevronDown size={14} className="ml-1" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="center" className="w-56 z-[10001]">
+          <DropdownMenuLabel className="text-xs">Presets</DropdownMenuLabel>
+          {getAllPresets(settings).map((preset) => (
+            <DropdownMenuItem key={preset.id} onSelect={() => onChangeSettings(applyPreset(settings, preset))} className="text-sm">
+              <Check size={14} className={`mr-2 ${preset.id === activePreset?.id ? 'opacity-100' : 'opacity-0'}`} />
+              <span className="flex-1 truncate">{preset.name}</span>
+              {!preset.builtIn && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDeletePreset(preset.id);
+                  }}
+                  className="ml-2 text-muted-foreground hover:text-red-500"
+                  aria-label={`Delete preset "${preset.name}"`}
+                >
+                  <Trash2 size={13} />
+                </button>
+              )}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setIsSaveOpen(true)} className="text-sm">
+            <Plus size={14} className="mr-2" /> Save current as preset
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={handleExport} className="text-sm">
+            <Download size={14} className="mr-2" /> Export presets
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()} className="text-sm">
+            <Upload size={14} className="mr-2" /> Import presets
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Save preset</DialogTitle>
+          </DialogHeader>
+          <p className="text-xs text-muted-foreground">
+            {settings.focusDuration} min focus, {settings.breakDuration} min break, {settings.longBreakDuration} min long break
+          </p>
+          <Input
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+            placeholder="Preset name"
+            autoFocus
+          />
+          <DialogFooter>
+            <Button onClick={handleSavePreset} disabled={!presetName.trim()} className="bg-focus-purple hover:bg-focus-purple-dark text-white rounded-full">
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default PresetSelector;
@@ -0,0 +1,69 @@
+import React from "react";
+import { Settings } from "lucide-react";
+import { TimerSettings } from "@/types";
+import { isSpeechSupported } from "@/utils/speechUtils";
+import StatsDashboard from "./StatsDashboard";
+import TimerSettingsPanel from "./TimerSettingsPanel";
+import NotificationSettingsPanel from "./NotificationSettingsPanel";
+import SoundSettingsPanel from "./SoundSettingsPanel";
+import SpeechSettingsPanel from "./SpeechSettingsPanel";
+import BlockingSettingsPanel from "./BlockingSettingsPanel";
+import ShortcutSettingsPanel from "./ShortcutSettingsPanel";
+import BackupPanel from "./BackupPanel";
+import { Button } from "./ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+
+interface SettingsDialogProps {
+  settings: TimerSettings;
+  onChangeSettings: (settings: TimerSettings) => void;
+}
+
+// Every setting that is not part of planning a session, and the stats, behind
+// one button. Only the open tab is mounted, so each loads its data when shown.
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ settings, onChangeSettings }) => {
+  const sections = [
+    { value: "timer", label: "Timer", content: <TimerSettingsPanel settings={settings} onChangeSettings={onChangeSettings} /> },
+    { value: "stats", label: "Stats", content: <StatsDashboard /> },
+    { value: "notifications", label: "Alerts", content: <NotificationSettingsPanel settings={settings} onChangeSettings={onChangeSettings} /> },
+    { value: "sounds", label: "Sounds", content: <SoundSettingsPanel settings={settings} onChangeSettings={onChangeSettings} /> },
+    ...(isSpeechSupported()
+      ? [{ value: "speech", label: "Speech", content: <SpeechSettingsPanel settings={settings} onChangeSettings={onChangeSettings} /> }]
+      : []),
+    { value: "blocking", label: "Blocking", content: <BlockingSettingsPanel settings={settings} onChangeSettings={onChangeSettings} /> },
+    { value: "shortcuts", label: "Shortcuts", content: <ShortcutSettingsPanel settings={settings} onChangeSettings={onChangeSettings} /> },
+    { value: "backup", label: "Backup", content: <BackupPanel /> },
+  ];
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="ml-auto h-7 w-7 text-focus-purple" aria-label="Settings and stats">
+          <Settings size={18} />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Settings</DialogTitle>
+          <DialogDescription>Changes are saved as you make them.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="timer">
+          <TabsList className="grid w-full h-auto grid-cols-4">
+            {sections.map(({ value, label }) => (
+              <TabsTrigger key={value} value={value} className="text-xs">{label}</TabsTrigger>
+            ))}
+          </TabsList>
+
+          {sections.map(({ value, content }) => (
+            <TabsContent key={value} value={value} className="pt-2">
+              {content}
+            </TabsContent>
+          ))}
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SettingsDialog;
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from "react";
+import { ShortcutAction, ShortcutBindings, TimerSettings } from "@/types";
+import { isExtensionContext } from "@/utils/chromeUtils";
+import {
+  SHORTCUT_ACTIONS,
+  defaultShortcuts,
+  getExtensionShortcuts,
+  getShortcutFromEvent,
+  openShortcutSettings
+} from "@/utils/shortcutUtils";
+import { Button } from "./ui/button";
+
+interface ShortcutSettingsPanelProps {
+  settings: TimerSettings;
+  onChangeSettings: (settings: TimerSettings) => void;
+}
+
+const ShortcutKeys: React.FC<{ shortcut: string | undefined }> = ({ shortcut }) => (
+  <kbd className="rounded border border-gray-300 bg-gray-50 px-1.5 py-0.5 font-mono text-xs text-gray-700">
+    {shortcut || "Not set"}
+  </kbd>
+);
+
+const ShortcutSettingsPanel: React.FC<ShortcutSettingsPanelProps> = ({ settings, onChangeSettings }) => {
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const [extensionShortcuts, setExtensionShortcuts] = useState<Partial<ShortcutBindings>>({});
+  const inExtension = isExtensionContext();
+
+  // Chrome owns the extension's bindings, so show what it has
+  useEffect(() => {
+    if (inExtension) {
+      getExtensionShortcuts().then(setExtensionShortcuts);
+    }
+  }, [inExtension]);
+
+  // Take the next key combination for the action being rebound
+  useEffect(() => {
+    if (!recording) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      if (event.key === "Escape") {
+        setRecording(null);
+        return;
+      }
+
+      const shortcut = event.key === "Backspace" ? "" : getShortcutFromEvent(event);
+      if (shortcut === null) return;
+
+      // A combination can only do one thing, so it moves from any other action
+      const shortcuts = { ...settings.shortcuts };
+      SHORTCUT_ACTIONS.forEach(({ action }) => {
+        if (shortcut && shortcuts[action] === shortcut) shortcuts[action] = "";
+      });
+      shortcuts[recording] = shortcut;
+
+      onChangeSettings({ ...settings, shortcuts });
+      setRecording(null);
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [recording, settings, onChangeSettings]);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {inExtension
+          ? "These work in every tab, even when FocusFlow is closed. Chrome keeps the bindings."
+          : "These work while FocusFlow is open. Press a key with Ctrl, Alt or Cmd to rebind; Backspace clears."}
+      </p>
+
+      <ul className="space-y-2">
+        {SHORTCUT_ACTIONS.map(({ action, label }) => (
+          <li key={action} className="flex items-center justify-between gap-2 text-sm">
+            <span className="text-dark-text">{label}</span>
+            {inExtension ? (
+              <ShortcutKeys shortcut={extensionShortcuts[action]} />
+            ) : (
+              <Button
+                variant="outline"
+                onClick={() => setRecording(recording === action ? null : action)}
+                className="h-8 rounded-full text-xs"
+              >
+                {recording === action ? "Press keys…" : <ShortcutKeys shortcut={settings.shortcuts[action]} />}
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex justify-end gap-2">
+        {inExtension ? (
+          <Button onClick={openShortcutSettings} className="bg-focus-purple hover:bg-focus-purple-dark text-white rounded-full">
+            Change in Chrome
+          </Button>
+        ) : (
+          <Button
+            variant="outline"
+            onClick={() => onChangeSettings({ ...settings, shortcuts: defaultShortcuts })}
+            className="rounded-full"
+          >
+            Reset to defaults
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutSettingsPanel;
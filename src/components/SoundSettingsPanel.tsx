@@ -0,0 +1,172 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Play, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { CustomSoundInfo, SoundCue, SoundCueSettings, TimerSettings } from "@/types";
+import {
+  BUNDLED_SOUNDS,
+  SOUND_CUES,
+  SOUND_NONE,
+  addCustomSound,
+  defaultSoundSettings,
+  deleteCustomSound,
+  getCustomSounds,
+  previewSound
+} from "@/utils/soundUtils";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "./ui/select";
+import { Slider } from "./ui/slider";
+import { Switch } from "./ui/switch";
+
+interface SoundSettingsPanelProps {
+  settings: TimerSettings;
+  onChangeSettings: (settings: TimerSettings) => void;
+}
+
+const SoundSettingsPanel: React.FC<SoundSettingsPanelProps> = ({ settings, onChangeSettings }) => {
+  const [customSounds, setCustomSounds] = useState<CustomSoundInfo[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { sounds } = settings;
+
+  useEffect(() => {
+    getCustomSounds().then(setCustomSounds);
+  }, []);
+
+  const changeCue = (cue: SoundCue, change: Partial<SoundCueSettings>) => {
+    onChangeSettings({ ...settings, sounds: { ...sounds, [cue]: { ...sounds[cue], ...change } } });
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const sound = await addCustomSound(file);
+      setCustomSounds((current) => [...current, sound]);
+      toast.success(`Added "${sound.name}"`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not add the sound");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDelete = async (sound: CustomSoundInfo) => {
+    try {
+      await deleteCustomSound(sound.id);
+      setCustomSounds((current) => current.filter(({ id }) => id !== sound.id));
+
+      // Cues that used it go back to their default
+      const next = { ...sounds };
+      SOUND_CUES.forEach(({ cue }) => {
+        if (next[cue].soundId === sound.id) next[cue] = { ...next[cue], soundId: defaultSoundSettings[cue].soundId };
+      });
+      onChangeSettings({ ...settings, sounds: next });
+    } catch (error) {
+      console.error("Error deleting sound:", error);
+      toast.error("Could not delete the sound");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+      </p>
+
+      <div className="space-y-4">
+        {SOUND_CUES.map(({ cue, label }) => (
+          <div key={cue} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor={`sound-${cue}`} className="text-sm text-dark-text">{label}</Label>
+              {cue === "tick" && (
+                <Switch
+                  checked={sounds.tickDuringFocus}
+                  onCheckedChange={(checked) => onChangeSettings({ ...settings, sounds: { ...sounds, tickDuringFocus: checked } })}
+                  aria-label="Tick during focus"
+                />
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={sounds[cue].soundId} onValueChange={(soundId) => changeCue(cue, { soundId })}>
+                <SelectTrigger id={`sound-${cue}`} className="h-8 flex-1 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BUNDLED_SOUNDS.map((sound) => (
+                    <SelectItem key={sound.id} value={sound.id}>{sound.label}</SelectItem>
+                  ))}
+                  {customSounds.length > 0 && (
+                    <SelectGroup>
+                      <SelectLabel>Your sounds</SelectLabel>
+                      {customSounds.map((sound) => (
+                        <SelectItem key={sound.id} value={sound.id}>{sound.name}</SelectItem>
+                      ))}
+                    </SelectGroup>
+                  )}
+                  <SelectItem value={SOUND_NONE}>None</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-focus-purple"
+                onClick={() => previewSound(cue, sounds[cue])}
+                disabled={sounds[cue].soundId === SOUND_NONE}
+                aria-label={`Preview: ${label}`}
+              >
+                <Play size={16} />
+              </Button>
+            </div>
+            <div className="flex items-center gap-3">
+              <Slider
+                value={[sounds[cue].volume]}
+                onValueChange={([volume]) => changeCue(cue, { volume })}
+                max={100}
+                step={5}
+                className="flex-1"
+                aria-label={`${label} volume`}
+              />
+              <span className="w-9 text-right text-xs text-gray-500">{sounds[cue].volume}%</span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {customSounds.length > 0 && (
+        <ul className="space-y-1 border-t pt-3">
+          {customSounds.map((sound) => (
+            <li key={sound.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate text-dark-text">{sound.name}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-gray-500"
+                onClick={() => handleDelete(sound)}
+                aria-label={`Delete ${sound.name}`}
+              >
+                <Trash2 size={14} />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+          className="rounded-full"
+        >
+          <Upload size={16} className="mr-2" /> Add a sound
+        </Button>
+      </div>
+      <input ref={fileInputRef} type="file" accept="audio/*" className="hidden" onChange={handleFile} />
+    </div>
+  );
+};
+
+export default SoundSettingsPanel;
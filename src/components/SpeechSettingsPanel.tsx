@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from "react";
+import { Play } from "lucide-react";
+import { SpeechCue, SpeechSettings, TimerSettings } from "@/types";
+import {
+  MAX_SPEECH_TEMPLATE_LENGTH,
+  SPEECH_CUES,
+  fillSpeechTemplate,
+  getVoices,
+  isSpeechSupported,
+  speak
+} from "@/utils/speechUtils";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Slider } from "./ui/slider";
+import { Switch } from "./ui/switch";
+
+interface SpeechSettingsPanelProps {
+  settings: TimerSettings;
+  onChangeSettings: (settings: TimerSettings) => void;
+}
+
+// Select items can not have an empty value, so the default voice gets a name
+const DEFAULT_VOICE = "default";
+
+const SpeechSettingsPanel: React.FC<SpeechSettingsPanelProps> = ({ settings, onChangeSettings }) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const { speech } = settings;
+
+  useEffect(() => {
+    getVoices().then(setVoices);
+  }, []);
+
+  const changeSpeech = (change: Partial<SpeechSettings>) => {
+    onChangeSettings({ ...settings, speech: { ...speech, ...change } });
+  };
+
+  const changeTemplate = (cue: SpeechCue, template: string) => {
+    changeSpeech({ templates: { ...speech.templates, [cue]: template } });
+  };
+
+  // Previews use the minutes the cue would most likely announce
+  const previewMinutes: Record<SpeechCue, number> = {
+    focusComplete: settings.breakDuration,
+    breakComplete: settings.focusDuration,
+    oneMinuteLeft: 1,
+  };
+
+  const preview = (cue: SpeechCue) => {
+    speak(fillSpeechTemplate(speech.templates[cue], { task: "Write the report", minutes: previewMinutes[cue] }), speech);
+  };
+
+  if (!isSpeechSupported()) return null;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Hear the timer without looking at it. Use {"{task}"} for the active task and {"{minutes}"} for the next phase.
+      </p>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="speech-enabled" className="text-sm text-dark-text">Speak announcements</Label>
+          <Switch id="speech-enabled" checked={speech.enabled} onCheckedChange={(enabled) => changeSpeech({ enabled })} />
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="speech-replace" className="text-sm text-dark-text">Instead of the sounds</Label>
+          <Switch
+            id="speech-replace"
+            checked={speech.replaceSounds}
+            onCheckedChange={(replaceSounds) => changeSpeech({ replaceSounds })}
+            disabled={!speech.enabled}
+          />
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="speech-voice" className="text-sm text-dark-text">Voice</Label>
+          <Select
+            value={speech.voiceURI || DEFAULT_VOICE}
+            onValueChange={(value) => changeSpeech({ voiceURI: value === DEFAULT_VOICE ? "" : value })}
+            disabled={!speech.enabled}
+          >
+            <SelectTrigger id="speech-voice" className="h-8 w-52 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_VOICE}>Browser default</SelectItem>
+              {voices.map((voice) => (
+                <SelectItem key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Label className="text-sm text-dark-text">Rate</Label>
+          <Slider
+            value={[speech.rate]}
+            onValueChange={([rate]) => changeSpeech({ rate })}
+            min={50}
+            max={200}
+            step={10}
+            disabled={!speech.enabled}
+            className="flex-1"
+            aria-label="Speaking rate"
+          />
+          <span className="w-9 text-right text-xs text-gray-500">{(speech.rate / 100).toFixed(1)}×</span>
+        </div>
+
+        {SPEECH_CUES.map(({ cue, label }) => (
+          <div key={cue} className="space-y-1">
+            <Label htmlFor={`speech-${cue}`} className="text-sm text-dark-text">{label}</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id={`speech-${cue}`}
+                value={speech.templates[cue]}
+                onChange={(e) => changeTemplate(cue, e.target.value)}
+                maxLength={MAX_SPEECH_TEMPLATE_LENGTH}
+                placeholder="Not spoken"
+                disabled={!speech.enabled}
+                className="h-8 text-sm"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-focus-purple"
+                onClick={() => preview(cue)}
+                disabled={!speech.enabled || !speech.templates[cue]}
+                aria-label={`Preview: ${label}`}
+              >
+                <Play size={16} />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SpeechSettingsPanel;
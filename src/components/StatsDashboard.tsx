@@ -0,0 +1,261 @@
+import React, { useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis } from "recharts";
+import { format, parseISO } from "date-fns";
+import { BarChart3, Coffee, Flame, Timer as TimerIcon, Target, Zap } from "lucide-react";
+import { useSessionHistory } from "@/hooks/useSessionHistory";
+import { useTasks } from "@/hooks/useTasks";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "./ui/chart";
+import { Calendar } from "./ui/calendar";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import ExportHistoryDialog from "./ExportHistoryDialog";
+import {
+  getDailyStats,
+  getWeeklyStats,
+  getFocusSecondsByDay,
+  getStatsSummary,
+  getHeatLevel,
+  getTagProgress,
+  getTaskProgress
+} from "@/utils/statsUtils";
+import {
+  getInterruptionLabel,
+  getSessionInterruptions,
+  getWeeklyInterruptionBreakdown
+} from "@/utils/interruptionUtils";
+
+const chartConfig = {
+  focusMinutes: {
+    label: "Focus minutes",
+    color: "#9b87f5",
+  },
+  sessions: {
+    label: "Sessions",
+    color: "#7E69AB",
+  },
+} satisfies ChartConfig;
+
+// Heatmap shades, from a light tint up to the full brand purple
+const heatClassNames = {
+  heat1: "bg-focus-purple/20",
+  heat2: "bg-focus-purple/40",
+  heat3: "bg-focus-purple/70 text-white",
+  heat4: "bg-focus-purple text-white",
+};
+
+const StatTile: React.FC<{ icon: React.ReactNode; label: string; value: string }> = ({ icon, label, value }) => (
+  <div className="bg-white bg-opacity-80 rounded-lg shadow-sm p-3 flex flex-col items-center">
+    {icon}
+    <span className="text-lg font-bold text-dark-text mt-1">{value}</span>
+    <span className="text-xs text-muted-foreground text-center">{label}</span>
+  </div>
+);
+
+interface EstimateRow {
+  key: string;
+  label: string;
+  estimated: number;
+  actual: number;
+}
+
+const EstimateTable: React.FC<{ heading: string; rows: EstimateRow[] }> = ({ heading, rows }) => (
+  <div className="bg-white bg-opacity-80 rounded-lg shadow-sm p-3">
+    <h3 className="text-sm font-semibold text-dark-text mb-2">{heading}</h3>
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-xs text-muted-foreground">
+          <th className="text-left font-normal">Name</th>
+          <th className="text-right font-normal">Estimated</th>
+          <th className="text-right font-normal">Actual</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map((row) => (
+          <tr key={row.key}>
+            <td className="truncate max-w-[180px]">{row.label}</td>
+            <td className="text-right">{row.estimated}</td>
+            <td className={`text-right font-semibold ${row.actual > row.estimated ? 'text-red-500' : 'text-focus-purple'}`}>
+              {row.actual}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+const StatsDashboard: React.FC = () => {
+  const { records, isLoading } = useSessionHistory();
+  const { tasks } = useTasks();
+  const summary = useMemo(() => getStatsSummary(records), [records]);
+  const dailyStats = useMemo(() => getDailyStats(records), [records]);
+  const weeklyStats = useMemo(() => getWeeklyStats(records), [records]);
+  const taskProgress = useMemo(() => getTaskProgress(tasks, records), [tasks, records]);
+  const tagProgress = useMemo(() => getTagProgress(tasks, records), [tasks, records]);
+  const weeklyInterruptions = useMemo(() => getWeeklyInterruptionBreakdown(records), [records]);
+  const sessionInterruptions = useMemo(() => getSessionInterruptions(records), [records]);
+
+  // Group days by heat level for the calendar modifiers
+  const heatModifiers = useMemo(() => {
+    const modifiers: Record<keyof typeof heatClassNames, Date[]> = { heat1: [], heat2: [], heat3: [], heat4: [] };
+
+    getFocusSecondsByDay(records).forEach((seconds, day) => {
+      const level = getHeatLevel(Math.round(seconds / 60));
+      if (level > 0) {
+        modifiers[`heat${level}` as keyof typeof heatClassNames].push(parseISO(day));
+      }
+    });
+
+    return modifiers;
+  }, [records]);
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground text-center py-6">Loading your sessions...</p>;
+  }
+
+  if (records.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-6">
+        No sessions recorded yet. Complete a focus session to see your statistics.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4 animate-fade-in">
+      <div className="flex items-center">
+        <BarChart3 className="text-focus-purple mr-2" size={18} />
+        <h2 className="text-lg text-dark-text font-semibold">Your Focus Stats</h2>
+        <ExportHistoryDialog records={records} tasks={tasks} />
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        <StatTile icon={<BarChart3 size={18} className="text-focus-purple" />} label="Total focus" value={`${summary.totalFocusMinutes} min`} />
+        <StatTile icon={<TimerIcon size={18} className="text-focus-purple" />} label="Avg. session" value={`${summary.averageSessionMinutes} min`} />
+        <StatTile icon={<Target size={18} className="text-focus-purple" />} label="Sessions completed" value={summary.completedSessions.toString()} />
+        <StatTile icon={<Coffee size={18} className="text-focus-purple" />} label="Breaks taken" value={`${Math.round(summary.breakTakingRate * 100)}%`} />
+        <StatTile icon={<Flame size={18} className="text-focus-purple" />} label="Longest streak" value={`${summary.longestStreak} day${summary.longestStreak !== 1 ? 's' : ''}`} />
+        <StatTile icon={<Zap size={18} className="text-focus-purple" />} label="Flow overtime" value={`${summary.overtimeMinutes} min`} />
+      </div>
+
+      <Tabs defaultValue="daily">
+        <TabsList className="w-full">
+          <TabsTrigger value="daily" className="flex-1">Daily</TabsTrigger>
+          <TabsTrigger value="weekly" className="flex-1">Weekly</TabsTrigger>
+          <TabsTrigger value="calendar" className="flex-1">Calendar</TabsTrigger>
+          <TabsTrigger value="tasks" className="flex-1">Tasks</TabsTrigger>
+          <TabsTrigger value="interruptions" className="flex-1">Interruptions</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="daily">
+          <ChartContainer config={chartConfig} className="w-full">
+            <BarChart data={dailyStats}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="focusMinutes" fill="var(--color-focusMinutes)" radius={4} />
+              <Bar dataKey="sessions" fill="var(--color-sessions)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </TabsContent>
+
+        <TabsContent value="weekly">
+          <ChartContainer config={chartConfig} className="w-full">
+            <BarChart data={weeklyStats}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="focusMinutes" fill="var(--color-focusMinutes)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </TabsContent>
+
+        <TabsContent value="calendar" className="flex flex-col items-center">
+          <Calendar
+            modifiers={heatModifiers}
+            modifiersClassNames={heatClassNames}
+            className="bg-white bg-opacity-80 rounded-lg shadow-sm"
+          />
+          <p className="text-xs text-muted-foreground">Darker days had more focus time.</p>
+        </TabsContent>
+
+        <TabsContent value="tasks" className="space-y-3">
+          {tasks.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Add tasks to compare estimated and actual pomodoros.</p>
+          ) : (
+            <>
+              <EstimateTable
+                heading="By project"
+                rows={tagProgress.map(({ tag, estimatedPomodoros, actualPomodoros }) => ({
+                  key: tag,
+                  label: tag,
+                  estimated: estimatedPomodoros,
+                  actual: actualPomodoros,
+                }))}
+              />
+              <EstimateTable
+                heading="By task"
+                rows={taskProgress.map(({ task, actualPomodoros }) => ({
+                  key: task.id,
+                  label: task.title,
+                  estimated: task.estimatedPomodoros,
+                  actual: actualPomodoros,
+                }))}
+              />
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="interruptions" className="space-y-3">
+          <div className="bg-white bg-opacity-80 rounded-lg shadow-sm p-3">
+            <h3 className="text-sm font-semibold text-dark-text mb-2">This week</h3>
+            {weeklyInterruptions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No interruptions this week.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-muted-foreground">
+                    <th className="text-left font-normal">Reason</th>
+                    <th className="text-right font-normal">Times</th>
+                    <th className="text-right font-normal">Minutes lost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {weeklyInterruptions.map((row) => (
+                    <tr key={row.reason}>
+                      <td>{row.label}</td>
+                      <td className="text-right">{row.count}</td>
+                      <td className="text-right font-semibold text-focus-purple">{row.minutes}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="bg-white bg-opacity-80 rounded-lg shadow-sm p-3">
+            <h3 className="text-sm font-semibold text-dark-text mb-2">Recent sessions</h3>
+            {sessionInterruptions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No interrupted focus sessions yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {sessionInterruptions.map(({ record, interruptions, pausedMinutes }) => (
+                  <li key={record.id} className="text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-dark-text">{format(record.startedAt, "EEE d MMM, HH:mm")}</span>
+                      <span className="text-muted-foreground">{pausedMinutes} min paused</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {interruptions.map(getInterruptionLabel).join(", ")}
+                    </p>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default StatsDashboard;
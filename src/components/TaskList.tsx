@@ -0,0 +1,136 @@
+import React, { useMemo, useState } from "react";
+import { ListTodo, Plus, Minus, Trash2, Circle, CheckCircle2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Badge } from "./ui/badge";
+import { Checkbox } from "./ui/checkbox";
+import { useTasks } from "@/hooks/useTasks";
+import { useSessionHistory } from "@/hooks/useSessionHistory";
+import { getTaskProgress } from "@/utils/statsUtils";
+import { cn } from "@/lib/utils";
+
+interface TaskListProps {
+  activeTaskId: string | null;
+  onSelectTask: (taskId: string | null) => void;
+}
+
+const TaskList: React.FC<TaskListProps> = ({ activeTaskId, onSelectTask }) => {
+  const { tasks, addTask, updateTask, removeTask } = useTasks();
+  const { records } = useSessionHistory();
+  const [title, setTitle] = useState("");
+  const [tag, setTag] = useState("");
+  const [estimate, setEstimate] = useState(1);
+
+  const taskProgress = useMemo(() => getTaskProgress(tasks, records), [tasks, records]);
+
+  const handleAddTask = () => {
+    if (!title.trim()) return;
+
+    const task = addTask(title, tag, estimate);
+    // The first task added becomes the active one
+    if (!activeTaskId) onSelectTask(task.id);
+
+    setTitle("");
+    setEstimate(1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      handleAddTask();
+    }
+  };
+
+  const handleRemoveTask = (id: string) => {
+    removeTask(id);
+    if (id === activeTaskId) onSelectTask(null);
+  };
+
+  const handleToggleDone = (id: string, done: boolean) => {
+    updateTask(id, { done });
+    if (done && id === activeTaskId) onSelectTask(null);
+  };
+
+  return (
+    <div className="focus-card p-4 w-full mt-6 animate-scale-in bg-gray-100 bg-opacity-80 backdrop-blur-md rounded-xl shadow-md transition-all duration-300 hover:shadow-lg">
+      <div className="flex items-center mb-1">
+        <ListTodo className="text-focus-purple mr-2" size={18} />
+        <h2 className="text-lg text-dark-text font-semibold">Tasks</h2>
+      </div>
+      <p className="text-xs text-muted-foreground mb-3">Pick what you are working on before you start. Completed focus sessions count towards the active task.</p>
+
+      {taskProgress.length > 0 && (
+        <ul className="space-y-1 mb-3 max-h-48 overflow-y-auto">
+          {taskProgress.map(({ task, actualPomodoros }) => {
+            const isActive = task.id === activeTaskId;
+
+            return (
+              <li
+                key={task.id}
+                className={cn(
+                  "flex items-center gap-2 rounded-lg px-2 py-1.5 bg-white bg-opacity-80",
+                  isActive && "ring-2 ring-focus-purple"
+                )}
+              >
+                <Checkbox
+                  checked={task.done}
+                  onCheckedChange={(checked) => handleToggleDone(task.id, checked === true)}
+                  aria-label={`Mark "${task.title}" as done`}
+                />
+                <button
+                  onClick={() => onSelectTask(isActive ? null : task.id)}
+                  disabled={task.done}
+                  className="flex-1 flex items-center gap-2 text-left min-w-0"
+                  aria-label={isActive ? `Stop working on "${task.title}"` : `Work on "${task.title}"`}
+                >
+                  {isActive
+                    ? <CheckCircle2 size={14} className="text-focus-purple shrink-0" />
+                    : <Circle size={14} className="text-muted-foreground shrink-0" />}
+                  <span className={cn("text-sm text-dark-text truncate", task.done && "line-through text-muted-foreground")}>
+                    {task.title}
+                  </span>
+                  {task.tag && <Badge variant="secondary" className="text-[10px] px-1.5 py-0">{task.tag}</Badge>}
+                </button>
+                <span
+                  className={cn(
+                    "text-xs font-semibold whitespace-nowrap",
+                    actualPomodoros > task.estimatedPomodoros ? "text-red-500" : "text-focus-purple"
+                  )}
+                  title="Actual / estimated pomodoros"
+                >
+                  {actualPomodoros}/{task.estimatedPomodoros}
+                </span>
+                <Button variant="ghost" size="icon" onClick={() => handleRemoveTask(task.id)} className="h-6 w-6" aria-label={`Delete "${task.title}"`}>
+                  <Trash2 size={14} />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex flex-col gap-2">
+        <div className="flex gap-2">
+          <Input value={title} onChange={(e) => setTitle(e.target.value)} onKeyDown={handleKeyDown} placeholder="What are you working on?" className="h-8 text-sm flex-1" />
+          <Input value={tag} onChange={(e) => setTag(e.target.value)} onKeyDown={handleKeyDown} placeholder="Project" className="h-8 text-sm w-24" />
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setEstimate(Math.max(1, estimate - 1))} disabled={estimate <= 1} className="rounded-full bg-muted/30 hover:bg-muted/50 h-7 w-7">
+              <Minus size={14} />
+            </Button>
+            <span className="text-sm text-focus-purple font-bold w-4 text-center">{estimate}</span>
+            <Button variant="outline" size="icon" onClick={() => setEstimate(Math.min(20, estimate + 1))} disabled={estimate >= 20} className="rounded-full bg-muted/30 hover:bg-muted/50 h-7 w-7">
+              <Plus size={14} />
+            </Button>
+            <span className="text-xs text-muted-foreground">pomodoros</span>
+          </div>
+          <Button onClick={handleAddTask} disabled={!title.trim()} className="bg-focus-purple hover:bg-focus-purple-dark text-white font-semibold px-4 rounded-full text-sm h-8">
+            Add task
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TaskList;
@@ -2,6 +2,7 @@
 import React from "react";
 import { formatTime } from "@/utils/timerUtils";
 import { TimerState } from "@/types";
+import { useElapsed } from "@/hooks/useCountdown";
 import { Pause, Play, RotateCcw, ChevronRight } from "lucide-react";
 import { Button } from "./ui/button";
 
@@ -11,32 +12,74 @@ interface TimerProps {
   onPause?: () => void;
   onReset?: () => void;
   totalDuration?: number;
+  goalProgress?: number | null; // share of the daily goal reached, 0..1
 }
 
+// Geometry of the daily goal ring drawn around the 140px display
+const RING_SIZE = 164;
+const RING_STROKE = 6;
+const RING_RADIUS = (RING_SIZE - RING_STROKE) / 2;
+const RING_CIRCUMFERENCE = 2 * Math.PI * RING_RADIUS;
+
 const Timer: React.FC<TimerProps> = ({
   timerState,
   onStart,
   onPause,
   onReset,
-  totalDuration
+  totalDuration,
+  goalProgress = null
 }) => {
   const {
     timeRemaining,
     mode,
-    isRunning
+    isRunning,
+    overtime,
+    endsAt
   } = timerState;
   
+  // In flow mode focus counts up past zero
+  const overtimeSeconds = useElapsed(overtime ? endsAt : null);
+  
   // Always use purple regardless of mode
   const timerTextColor = 'text-focus-purple';
   
   return (
     <div className="flex flex-col items-center space-y-2 animate-fade-in">
-      <div className="timer-display mb-0" style={{
-        width: "140px",
-        height: "140px"
+      <div className="relative flex items-center justify-center" style={{
+        width: `${RING_SIZE}px`,
+        height: `${RING_SIZE}px`
       }}>
-        <div className={`timer-text ${timerTextColor} text-3xl font-bold`}>
-          {formatTime(timeRemaining)}
+        {goalProgress !== null && (
+          <svg
+            className="absolute inset-0 -rotate-90"
+            width={RING_SIZE}
+            height={RING_SIZE}
+            role="img"
+            aria-label={`${Math.round(goalProgress * 100)}% of today's focus goal`}
+          >
+            <circle cx={RING_SIZE / 2} cy={RING_SIZE / 2} r={RING_RADIUS} fill="none" stroke="#9b87f5" strokeOpacity={0.15} strokeWidth={RING_STROKE} />
+            <circle
+              cx={RING_SIZE / 2}
+              cy={RING_SIZE / 2}
+              r={RING_RADIUS}
+              fill="none"
+              stroke="#9b87f5"
+              strokeWidth={RING_STROKE}
+              strokeLinecap="round"
+              strokeDasharray={RING_CIRCUMFERENCE}
+              strokeDashoffset={RING_CIRCUMFERENCE * (1 - goalProgress)}
+              className="transition-all duration-500"
+            />
+          </svg>
+        )}
+        <div className="timer-display mb-0 flex-col" style={{
+          width: "140px",
+          height: "140px"
+        }}>
+          <div className={`timer-text ${timerTextColor} text-3xl font-bold`}>
+            {overtime ? `+${formatTime(overtimeSeconds)}` : formatTime(timeRemaining)}
+          </div>
+          {overtime && <div className="text-xs font-semibold uppercase tracking-wide text-focus-purple">Overtime</div>}
         </div>
       </div>
     </div>
@@ -0,0 +1,94 @@
+import React from "react";
+import { IdleAction, TimerSettings } from "@/types";
+import { Label } from "./ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Switch } from "./ui/switch";
+
+interface TimerSettingsPanelProps {
+  settings: TimerSettings;
+  onChangeSettings: (settings: TimerSettings) => void;
+}
+
+// Choices for how often a single phase can be extended or snoozed
+const EXTENSION_LIMITS = [0, 1, 2, 3, 5];
+
+// Minutes without input before focus counts as idle
+const IDLE_THRESHOLDS = [1, 2, 5, 10, 15];
+
+const IDLE_ACTION_LABELS: Record<IdleAction, string> = {
+  off: "Do nothing",
+  pause: "Pause the timer",
+  mark: "Mark as idle",
+};
+
+const TimerSettingsPanel: React.FC<TimerSettingsPanelProps> = ({ settings, onChangeSettings }) => {
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        How a phase runs past zero, what happens while you are away, and how often it can be put off.
+      </p>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="overtime-enabled" className="text-sm text-dark-text">Flow mode: keep counting past zero</Label>
+          <Switch id="overtime-enabled" checked={settings.overtimeEnabled} onCheckedChange={(checked) => onChangeSettings({ ...settings, overtimeEnabled: checked })} />
+        </div>
+        {settings.overtimeEnabled && (
+          <div className="flex items-center justify-between">
+            <Label htmlFor="scale-break" className="text-sm text-dark-text">Longer break after overtime</Label>
+            <Switch id="scale-break" checked={settings.scaleBreakWithFocus} onCheckedChange={(checked) => onChangeSettings({ ...settings, scaleBreakWithFocus: checked })} />
+          </div>
+        )}
+        <div className="flex items-center justify-between">
+          <Label htmlFor="idle-action" className="text-sm text-dark-text">When I am away</Label>
+          <div className="flex gap-1">
+            <Select value={settings.idleAction} onValueChange={(value) => onChangeSettings({ ...settings, idleAction: value as IdleAction })}>
+              <SelectTrigger id="idle-action" className="w-36 h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(IDLE_ACTION_LABELS) as IdleAction[]).map((action) => (
+                  <SelectItem key={action} value={action}>{IDLE_ACTION_LABELS[action]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={settings.idleThreshold.toString()}
+              onValueChange={(value) => onChangeSettings({ ...settings, idleThreshold: parseInt(value) })}
+              disabled={settings.idleAction === "off"}
+            >
+              <SelectTrigger className="w-24 h-8 text-sm" aria-label="Idle after">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {IDLE_THRESHOLDS.map((minutes) => (
+                  <SelectItem key={minutes} value={minutes.toString()}>{minutes} min</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="max-extensions" className="text-sm text-dark-text">Extends and snoozes per phase</Label>
+          <Select
+            value={settings.maxExtensionsPerPhase.toString()}
+            onValueChange={(value) => onChangeSettings({ ...settings, maxExtensionsPerPhase: parseInt(value) })}
+          >
+            <SelectTrigger id="max-extensions" className="w-28 h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXTENSION_LIMITS.map((limit) => (
+                <SelectItem key={limit} value={limit.toString()}>
+                  {limit === 0 ? "None" : `${limit} time${limit !== 1 ? 's' : ''}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimerSettingsPanel;
@@ -0,0 +1,160 @@
+import React, { useState } from "react";
+import { Briefcase, ChevronDown, ChevronUp } from "lucide-react";
+import { OutsideHoursBehavior, TimerSettings, WorkDay, WorkSchedule } from "@/types";
+import { WEEKDAY_NAMES, isWithinWorkingHours } from "@/utils/scheduleUtils";
+import { Input } from "./ui/input";
+import { Switch } from "./ui/switch";
+import { Label } from "./ui/label";
+import { Checkbox } from "./ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
+
+interface WorkScheduleCardProps {
+  settings: TimerSettings;
+  onChangeSettings: (settings: TimerSettings) => void;
+}
+
+// Monday first, as most working weeks are written
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+interface TimeRangeProps {
+  id: string;
+  range: WorkDay;
+  disabled: boolean;
+  onChange: (changes: Partial<WorkDay>) => void;
+}
+
+const TimeRange: React.FC<TimeRangeProps> = ({ id, range, disabled, onChange }) => (
+  <div className="flex items-center gap-1">
+    <Input
+      id={id}
+      type="time"
+      value={range.start}
+      onChange={(e) => e.target.value && onChange({ start: e.target.value })}
+      disabled={disabled}
+      className="h-8 w-24 text-xs px-2"
+    />
+    <span className="text-xs text-muted-foreground">–</span>
+    <Input
+      type="time"
+      value={range.end}
+      onChange={(e) => e.target.value && onChange({ end: e.target.value })}
+      disabled={disabled}
+      className="h-8 w-24 text-xs px-2"
+      aria-label="End time"
+    />
+  </div>
+);
+
+const WorkScheduleCard: React.FC<WorkScheduleCardProps> = ({
+  settings,
+  onChangeSettings
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const schedule = settings.workSchedule;
+
+  const changeSchedule = (changes: Partial<WorkSchedule>) => {
+    onChangeSettings({ ...settings, workSchedule: { ...schedule, ...changes } });
+  };
+
+  const changeDay = (dayIndex: number, changes: Partial<WorkDay>) => {
+    changeSchedule({
+      days: schedule.days.map((day, index) => (index === dayIndex ? { ...day, ...changes } : day)),
+    });
+  };
+
+  return (
+    <div className="focus-card p-4 w-full mt-6 animate-scale-in bg-gray-100 bg-opacity-80 backdrop-blur-md rounded-xl shadow-md transition-all duration-300 hover:shadow-lg">
+      <Collapsible open={isOpen} onOpenChange={setIsOpen} className="w-full">
+        <CollapsibleTrigger className="flex items-center justify-between w-full text-left">
+          <div className="flex items-center">
+            <Briefcase className="text-focus-purple mr-2" size={18} />
+            <h2 className="text-lg text-dark-text font-semibold">Working Hours</h2>
+          </div>
+          <div className="flex items-center">
+            <span className="text-sm mr-2 text-dark-text">
+              {!schedule.enabled ? "Off" : isWithinWorkingHours(schedule) ? "Working" : "Off hours"}
+            </span>
+            {isOpen ? <ChevronUp size={18} /> : <ChevronDown size={18} />}
+          </div>
+        </CollapsibleTrigger>
+
+        <CollapsibleContent className="pt-2 transition-all data-[state=closed]:animate-accordion-up data-[state=open]:animate-accordion-down">
+          <div className="flex items-center justify-between mt-2">
+            <Label htmlFor="schedule-enabled" className="text-sm text-dark-text">Only prompt during working hours</Label>
+            <Switch id="schedule-enabled" checked={schedule.enabled} onCheckedChange={(checked) => changeSchedule({ enabled: checked })} />
+          </div>
+
+          {schedule.enabled && (
+            <div className="space-y-2 mt-3">
+              {WEEK_ORDER.map((dayIndex) => {
+                const day = schedule.days[dayIndex];
+                return (
+                  <div key={dayIndex} className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id={`work-day-${dayIndex}`}
+                        checked={day.enabled}
+                        onCheckedChange={(checked) => changeDay(dayIndex, { enabled: checked === true })}
+                      />
+                      <Label htmlFor={`work-day-${dayIndex}`} className="text-sm text-dark-text w-24">{WEEKDAY_NAMES[dayIndex]}</Label>
+                    </div>
+                    <TimeRange id={`work-day-${dayIndex}-start`} range={day} disabled={!day.enabled} onChange={(changes) => changeDay(dayIndex, changes)} />
+                  </div>
+                );
+              })}
+
+              <div className="flex items-center justify-between pt-2 border-t border-gray-200">
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="lunch-enabled"
+                    checked={schedule.lunch.enabled}
+                    onCheckedChange={(checked) => changeSchedule({ lunch: { ...schedule.lunch, enabled: checked === true } })}
+                  />
+                  <Label htmlFor="lunch-enabled" className="text-sm text-dark-text w-24">Lunch</Label>
+                </div>
+                <TimeRange
+                  id="lunch-start"
+                  range={schedule.lunch}
+                  disabled={!schedule.lunch.enabled}
+                  onChange={(changes) => changeSchedule({ lunch: { ...schedule.lunch, ...changes } })}
+                />
+              </div>
+
+              <div className="flex items-center justify-between pt-2">
+                <Label htmlFor="outside-hours" className="text-sm text-dark-text">When hours end</Label>
+                <Select
+                  value={schedule.outsideHours}
+                  onValueChange={(value) => changeSchedule({ outsideHours: value as OutsideHoursBehavior })}
+                >
+                  <SelectTrigger id="outside-hours" className="w-40 h-8 text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="finish">Finish the phase</SelectItem>
+                    <SelectItem value="pause">Pause the timer</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="auto-start-day" className="text-sm text-dark-text">Start focusing when the day begins</Label>
+                <Switch
+                  id="auto-start-day"
+                  checked={schedule.autoStartFirstFocus}
+                  onCheckedChange={(checked) => changeSchedule({ autoStartFirstFocus: checked })}
+                />
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                Outside these hours no new phase starts and no break sound plays.
+              </p>
+            </div>
+          )}
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  );
+};
+
+export default WorkScheduleCard;
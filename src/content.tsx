@@ -1,6 +1,7 @@
 
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
+import FocusBlocker from "./components/FocusBlocker";
 import { v4 as uuidv4 } from 'uuid';
 
 import "./index.css";
@@ -33,12 +34,12 @@ const initializeExtension = () => {
     // Set up listeners for cross-tab communication with error handling
     chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       // Only process messages we care about
-      if (message.action === 'stateChange') {
+      if (message.action === 'timerState') {
+        console.log(`[FocusFlow] Timer state received: mode=${message.value?.mode}, running=${message.value?.isRunning}`);
+      } else if (message.action === 'stateChange') {
         // Only log important messages
-        if (message.key === 'focusflow_timer_state') {
-          console.log(`[FocusFlow] Timer state received: mode=${message.value?.mode}, running=${message.value?.isRunning}`);
-        } else if (message.key === 'focusflow_settings') {
-          console.log(`[FocusFlow] Settings received: focus=${message.value?.focusDuration/60}min, break=${message.value?.breakDuration/60}min`);
+        if (message.key === 'focusflow_settings') {
+          console.log(`[FocusFlow] Settings received: focus=${message.value?.focusDuration}min, break=${message.value?.breakDuration}min`);
         }
       }
       return true;
@@ -83,9 +84,24 @@ const initializeExtension = () => {
   }, 500); // Longer delay to prevent page load impacts
 };
 
+// The blocker has its own root and mounts right away, so blocked sites are
+// covered before the widget has loaded
+const mountFocusBlocker = () => {
+  const blockerContainer = document.createElement("div");
+  blockerContainer.id = "focusflow-blocker-root";
+  document.body.appendChild(blockerContainer);
+  
+  try {
+    createRoot(blockerContainer).render(<FocusBlocker />);
+  } catch (error) {
+    console.error("[FocusFlow] Error rendering the blocker:", error);
+  }
+};
+
 // Check if we should initialize now or wait
 if (!window.hasRun) {
   window.hasRun = true;
+  mountFocusBlocker();
   
   // Use requestIdleCallback with a timeout fallback to ensure it runs during browser idle time
   if ('requestIdleCallback' in window) {
@@ -0,0 +1,39 @@
+import { useState, useEffect } from "react";
+
+const secondsUntil = (target: number | null): number => {
+  return target === null ? 0 : Math.max(0, Math.ceil((target - Date.now()) / 1000));
+};
+
+const secondsSince = (since: number | null): number => {
+  return since === null ? 0 : Math.max(0, Math.floor((Date.now() - since) / 1000));
+};
+
+// Whole seconds left until a timestamp, refreshed while it is in the future
+export const useCountdown = (target: number | null): number => {
+  const [secondsLeft, setSecondsLeft] = useState(() => secondsUntil(target));
+
+  useEffect(() => {
+    setSecondsLeft(secondsUntil(target));
+    if (target === null) return;
+
+    const intervalId = setInterval(() => setSecondsLeft(secondsUntil(target)), 250);
+    return () => clearInterval(intervalId);
+  }, [target]);
+
+  return secondsLeft;
+};
+
+// Whole seconds elapsed since a timestamp, refreshed while it is set
+export const useElapsed = (since: number | null): number => {
+  const [elapsed, setElapsed] = useState(() => secondsSince(since));
+
+  useEffect(() => {
+    setElapsed(secondsSince(since));
+    if (since === null) return;
+
+    const intervalId = setInterval(() => setElapsed(secondsSince(since)), 250);
+    return () => clearInterval(intervalId);
+  }, [since]);
+
+  return elapsed;
+};
@@ -0,0 +1,59 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { TimerSettings } from "@/types";
+import { isExtensionContext } from "@/utils/chromeUtils";
+import { DailyFocusTotals, getCurrentStreak, getDailyGoalProgress, isGoalMetToday, recordGoalMet } from "@/utils/goalUtils";
+import { getTodaysFocusTotals, listenForTodaysFocusTotals } from "@/utils/sessionHistory";
+import { showSystemNotification } from "@/utils/notificationUtils";
+
+interface UseDailyGoalProps {
+  settings: TimerSettings;
+  onChangeSettings: (settings: TimerSettings) => void;
+}
+
+// Today's progress towards the daily goal. In the extension the worker
+// celebrates and extends the streak; the standalone app does it here.
+export const useDailyGoal = ({ settings, onChangeSettings }: UseDailyGoalProps) => {
+  // Only today's totals are loaded, not the whole history
+  const [totals, setTotals] = useState<DailyFocusTotals | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getTodaysFocusTotals().then((storedTotals) => {
+      if (!cancelled) setTotals(storedTotals);
+    });
+
+    const stopListening = listenForTodaysFocusTotals(setTotals);
+
+    return () => {
+      cancelled = true;
+      stopListening();
+    };
+  }, []);
+
+  const progress = useMemo(() => getDailyGoalProgress(totals, settings), [totals, settings]);
+
+  // The settings prop only catches up after a re-render, so celebrate once per day
+  const celebratedDayRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (isExtensionContext() || !progress?.met || isGoalMetToday(settings.goalStreak)) return;
+
+    const today = format(new Date(), "yyyy-MM-dd");
+    if (celebratedDayRef.current === today) return;
+    celebratedDayRef.current = today;
+
+    const goalStreak = recordGoalMet(settings.goalStreak);
+    onChangeSettings({ ...settings, goalStreak });
+
+    if (!settings.notifications.goalMet) return;
+
+    const message = `Daily goal reached! You are on a ${goalStreak.count}-day streak.`;
+    toast.success(message);
+    showSystemNotification(message, "goalMet");
+  }, [progress, settings, onChangeSettings]);
+
+  return { progress, streak: getCurrentStreak(settings.goalStreak) };
+};
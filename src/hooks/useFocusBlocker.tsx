@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Task, TimerSettings, TimerState } from "@/types";
+import { isExtensionContext, listenForTimerState, sendTimerCommand } from "@/utils/chromeUtils";
+import { getStoredSettings, listenForSettings } from "@/utils/settingsStorage";
+import { getTasks, listenForTasks } from "@/utils/taskStorage";
+import {
+  getSiteUnlocks,
+  isBlockingActive,
+  isSiteBlocked,
+  listenForSiteUnlocks,
+  unlockSite
+} from "@/utils/blockingUtils";
+import { useCountdown } from "./useCountdown";
+
+// Whether the page this content script runs on should be covered right now,
+// following the timer, the blocking settings and unlocks made in any tab
+export const useFocusBlocker = () => {
+  const [timerState, setTimerState] = useState<TimerState | null>(null);
+  const [settings, setSettings] = useState<TimerSettings | null>(null);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [unlocks, setUnlocks] = useState<Record<string, number>>({});
+  const hostname = window.location.hostname.toLowerCase();
+
+  useEffect(() => {
+    if (!isExtensionContext()) return;
+
+    sendTimerCommand('getState').then(setTimerState).catch((error) => {
+      console.error("Error loading the timer for the blocker:", error);
+    });
+    getStoredSettings().then(setSettings).catch((error) => {
+      console.error("Error loading settings for the blocker:", error);
+    });
+    getTasks().then(setTasks);
+    getSiteUnlocks().then(setUnlocks).catch((error) => {
+      console.error("Error loading site unlocks:", error);
+    });
+
+    const stopListening = [
+      listenForTimerState(setTimerState),
+      listenForSettings(setSettings),
+      listenForTasks(setTasks),
+      listenForSiteUnlocks(setUnlocks),
+    ];
+    return () => stopListening.forEach((stop) => stop());
+  }, []);
+
+  // Counting down makes the page block again once the unlock runs out
+  const unlockedFor = useCountdown(unlocks[hostname] ?? null);
+
+  const blocked = Boolean(
+    timerState && settings && unlockedFor === 0 &&
+    isBlockingActive(timerState) && isSiteBlocked(hostname, settings.blocking)
+  );
+
+  const taskTitle = useMemo(
+    () => tasks.find((task) => task.id === timerState?.activeTaskId)?.title ?? null,
+    [tasks, timerState?.activeTaskId]
+  );
+
+  // Opens the site for the configured time and logs the unlock with its reason
+  const unlock = useCallback(
+    async (reason: string) => {
+      if (!settings) return;
+
+      await sendTimerCommand('logUnlock', { site: hostname, reason });
+      await unlockSite(hostname, settings.blocking.unlockMinutes);
+      setUnlocks(await getSiteUnlocks());
+    },
+    [settings, hostname]
+  );
+
+  return {
+    blocked,
+    timerState,
+    taskTitle,
+    unlockMinutes: settings?.blocking.unlockMinutes ?? 0,
+    unlock,
+  };
+};
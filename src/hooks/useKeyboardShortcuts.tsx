@@ -0,0 +1,31 @@
+import { useEffect, useRef } from "react";
+import { ShortcutAction, ShortcutBindings } from "@/types";
+import { SHORTCUT_EXTEND_MINUTES, listenForShortcuts } from "@/utils/shortcutUtils";
+
+interface UseKeyboardShortcutsProps {
+  shortcuts: ShortcutBindings;
+  onToggleTimer: () => void;
+  onSkip: () => void;
+  onOpenPanel: () => void;
+  onExtend: (minutes: number) => void;
+}
+
+// Runs the keyboard shortcuts that reach this page: all of them in the
+// standalone app, and only "open panel" in the extension, whose worker
+// handles the rest
+export const useKeyboardShortcuts = ({ shortcuts, ...handlers }: UseKeyboardShortcutsProps) => {
+  // Keep the latest handlers without listening again on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const actions: Record<ShortcutAction, () => void> = {
+      "toggle-timer": () => handlersRef.current.onToggleTimer(),
+      "skip-phase": () => handlersRef.current.onSkip(),
+      "open-panel": () => handlersRef.current.onOpenPanel(),
+      "extend-timer": () => handlersRef.current.onExtend(SHORTCUT_EXTEND_MINUTES),
+    };
+
+    return listenForShortcuts(shortcuts, (action) => actions[action]());
+  }, [shortcuts]);
+};
@@ -0,0 +1,29 @@
+import { useState, useEffect } from "react";
+import { SessionRecord } from "@/types";
+import { getSessionRecords, listenForSessionHistory } from "@/utils/sessionHistory";
+
+// Loads the recorded sessions and keeps them current as new phases end
+export const useSessionHistory = () => {
+  const [records, setRecords] = useState<SessionRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getSessionRecords().then((storedRecords) => {
+      if (!cancelled) {
+        setRecords(storedRecords);
+        setIsLoading(false);
+      }
+    });
+
+    const stopListening = listenForSessionHistory(setRecords);
+
+    return () => {
+      cancelled = true;
+      stopListening();
+    };
+  }, []);
+
+  return { records, isLoading };
+};
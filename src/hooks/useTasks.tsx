@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Task } from "@/types";
+import { createTask, getTasks, listenForTasks, saveTasks } from "@/utils/taskStorage";
+
+// Loads the task list, keeps it in sync across tabs and exposes edits
+export const useTasks = () => {
+  const [tasks, setTasks] = useState<Task[]>([]);
+
+  // Edits build on the latest list, even when several happen before a re-render
+  const tasksRef = useRef<Task[]>([]);
+
+  const applyTasks = useCallback((nextTasks: Task[]) => {
+    tasksRef.current = nextTasks;
+    setTasks(nextTasks);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getTasks().then((storedTasks) => {
+      if (!cancelled) applyTasks(storedTasks);
+    });
+
+    const stopListening = listenForTasks(applyTasks);
+
+    return () => {
+      cancelled = true;
+      stopListening();
+    };
+  }, [applyTasks]);
+
+  const commitTasks = useCallback(
+    (nextTasks: Task[]) => {
+      applyTasks(nextTasks);
+      saveTasks(nextTasks).catch((error) => console.error("Error saving tasks:", error));
+    },
+    [applyTasks]
+  );
+
+  const addTask = useCallback(
+    (title: string, tag: string, estimatedPomodoros: number) => {
+      const task = createTask(title, tag, estimatedPomodoros);
+      commitTasks([...tasksRef.current, task]);
+      return task;
+    },
+    [commitTasks]
+  );
+
+  const updateTask = useCallback(
+    (id: string, changes: Partial<Omit<Task, "id">>) => {
+      commitTasks(tasksRef.current.map((task) => (task.id === id ? { ...task, ...changes } : task)));
+    },
+    [commitTasks]
+  );
+
+  const removeTask = useCallback(
+    (id: string) => {
+      commitTasks(tasksRef.current.filter((task) => task.id !== id));
+    },
+    [commitTasks]
+  );
+
+  return { tasks, addTask, updateTask, removeTask };
+};
@@ -1,34 +1,82 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import { TimerMode, TimerState, BreakActivity, TimerSettings } from "@/types";
+import {
+  TimerMode,
+  TimerState,
+  BreakActivity,
+  TimerSettings,
+  TimerCommand,
+  TimerEvent,
+  InterruptionReason,
+  SoundCue,
+  SpeechCue
+} from "@/types";
 import { toast } from "sonner";
-import { minutesToSeconds } from "@/utils/timerUtils";
-import { 
-  isExtensionContext, 
-  getExtensionURL, 
-  saveToLocalStorage,
-  getFromLocalStorage,
-  listenForStateChanges,
-  playSingleAudio
+import {
+  minutesToSeconds,
+  getModeDuration,
+  getRemainingSeconds,
+  getExtensionsLeft,
+  getSnoozesLeft
+} from "@/utils/timerUtils";
+import { addSessionRecord } from "@/utils/sessionHistory";
+import { TimerAnnouncement, createInitialTimerState, transition } from "@/utils/timerMachine";
+import { appendTimerEvent } from "@/utils/timerEventLog";
+import {
+  NOTIFICATION_SNOOZE_MINUTES,
+  NotificationActionId,
+  getPhaseNotification,
+  showSystemNotification
+} from "@/utils/notificationUtils";
+import { getSoundSource } from "@/utils/soundUtils";
+import {
+  ONE_MINUTE_WARNING_SECONDS,
+  fillSpeechTemplate,
+  getPhaseSpeech,
+  getTaskTitle,
+  speak
+} from "@/utils/speechUtils";
+import { canStartPhase, isStartOfWorkDay, isWithinWorkingHours } from "@/utils/scheduleUtils";
+import { listenForPageIdle } from "@/utils/idleUtils";
+import {
+  isExtensionContext,
+  playSingleAudio,
+  sendTimerCommand,
+  listenForTimerState
 } from "@/utils/chromeUtils";
-import { v4 as uuidv4 } from 'uuid';
 
 interface UseTimerProps {
   settings: TimerSettings;
 }
 
-// Timer state keys for storage
-const TIMER_STATE_KEY = "focusflow_timer_state";
-const TIMER_LAST_UPDATE_KEY = "focusflow_timer_last_update";
-const SETTINGS_KEY = "focusflow_settings";
+// How often the display is refreshed while running
+const TICK_INTERVAL_MS = 250;
 
-export const useTimer = ({ settings }: UseTimerProps) => {
-  const [timerState, setTimerState] = useState<TimerState>({
-    mode: "focus",
-    timeRemaining: minutesToSeconds(settings.focusDuration),
-    isRunning: false,
-    breakActivity: null,
-    completed: false,
+// How often the standalone app checks the working-hours schedule
+const SCHEDULE_CHECK_INTERVAL_MS = 30 * 1000;
+
+// The worker broadcasts every state change to all tabs, including the sender,
+// so commands do not need to render their response
+const runWorkerCommand = (command: TimerCommand, payload?: Record<string, unknown>) => {
+  return sendTimerCommand(command, payload).catch((error) => {
+    console.error(`Error sending timer command "${command}":`, error);
+    return null;
   });
+};
+
+export const useTimer = ({ settings }: UseTimerProps) => {
+  const [timerState, setTimerState] = useState<TimerState>(() => createInitialTimerState(settings));
+
+  // The latest state, so several changes in one event build on each other
+  // instead of on the state of the last render
+  const stateRef = useRef(timerState);
+  const commitState = useCallback((state: TimerState) => {
+    stateRef.current = state;
+    setTimerState(state);
+  }, []);
+
+  // In the extension the background worker owns the timer and this hook only
+  // renders it. The standalone web app has no worker, so it runs the timer here.
+  const workerOwned = isExtensionContext();
 
   // Keep a ref to the current settings to avoid dependency issues in hooks
   const settingsRef = useRef(settings);
@@ -36,253 +84,489 @@ export const useTimer = ({ settings }: UseTimerProps) => {
     settingsRef.current = settings;
   }, [settings]);
 
-  const intervalRef = useRef<number | null>(null);
-  const breakAudioRef = useRef<HTMLAudioElement | null>(null);
-  const focusAudioRef = useRef<HTMLAudioElement | null>(null);
-  
-  // Keep track of when the state last changed
-  const lastUpdateRef = useRef<number>(Date.now());
+  // One element per phase sound, loaded from the sound settings
+  const audioRefs = useRef<Partial<Record<SoundCue, HTMLAudioElement | null>>>({});
 
-  // Initialize audio with lower volume and lazy loading
+  // The phase end already reported to the worker, so it is only sent once
+  const expiryReportedRef = useRef<number | null>(null);
+
+  // Load the chosen sounds lazily, and again whenever they change
+  const { sounds } = settings;
   useEffect(() => {
-    // Lazy initialize audio elements
+    // The worker plays sounds through its offscreen document
+    if (workerOwned) return;
+
+    let cancelled = false;
     const initAudio = () => {
-      if (!breakAudioRef.current) {
-        breakAudioRef.current = new Audio(getExtensionURL("/assets/time-for-break.mp3"));
-        breakAudioRef.current.volume = 0.7; // Lower volume
-      }
-      
-      if (!focusAudioRef.current) {
-        focusAudioRef.current = new Audio(getExtensionURL("/assets/time-for-focus.mp3"));
-        focusAudioRef.current.volume = 0.7; // Lower volume
-      }
+      (["breakStart", "focusStart"] as const).forEach(async (cue) => {
+        // Uploads are read from IndexedDB, so the source arrives later
+        const src = await getSoundSource(cue, sounds[cue].soundId);
+        if (cancelled) return;
+
+        const audio = src ? new Audio(src) : null;
+        if (audio) audio.volume = sounds[cue].volume / 100;
+        audioRefs.current[cue] = audio;
+      });
     };
-    
+
     // Delay audio initialization
     const timeoutId = setTimeout(initAudio, 1000);
 
     return () => {
+      cancelled = true;
       clearTimeout(timeoutId);
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
     };
+  }, [workerOwned, sounds]);
+
+  // What the buttons on a phase notification do; filled in once the
+  // commands below are defined
+  const notificationActionsRef = useRef<Record<NotificationActionId, () => void>>({
+    start: () => {},
+    snooze: () => {},
+    skip: () => {},
+  });
+
+  // Speak a cue in the standalone app, if it is turned on and has a text
+  const speakCue = useCallback((cue: SpeechCue, minutes: number, taskId: string | null) => {
+    const speech = settingsRef.current.speech;
+    if (!speech.enabled || !speech.templates[cue]) return;
+
+    getTaskTitle(taskId).then((task) => speak(fillSpeechTemplate(speech.templates[cue], { task, minutes }), speech));
   }, []);
 
-  // Load initial timer state from storage with improved sync
+  // Play sound and show notification in the standalone app. The toast
+  // carries the buttons; a hidden page also gets a system notification.
+  const announce = useCallback((prev: TimerState, next: TimerState, announcement: TimerAnnouncement) => {
+    const { speech } = settingsRef.current;
+    const spoken = getPhaseSpeech(next, announcement);
+    if (spoken) speakCue(spoken.cue, spoken.minutes, next.activeTaskId);
+
+    // Speech can take the place of the sound
+    if (!spoken || !speech.enabled || !speech.replaceSounds || !speech.templates[spoken.cue]) {
+      const cue: SoundCue = next.mode === "focus" && announcement === "phaseComplete" ? "focusStart" : "breakStart";
+      playSingleAudio(audioRefs.current[cue] ?? null, cue);
+    }
+
+    const { event, message, actions } = getPhaseNotification(prev, next, announcement, getSnoozesLeft(next, settingsRef.current));
+    if (!settingsRef.current.notifications[event]) return;
+
+    const [action, cancel] = actions.map(({ id, label }) => ({
+      label,
+      onClick: () => notificationActionsRef.current[id](),
+    }));
+    toast(message, { action, cancel });
+
+    if (document.visibilityState === "hidden") {
+      showSystemNotification(message, event);
+    }
+  }, [speakCue]);
+
+  // Run an event through the state machine in the standalone app and carry
+  // out what it asks for
+  const dispatch = useCallback(
+    (event: TimerEvent) => {
+      const prev = stateRef.current;
+      const { state, record, announcement, entry } = transition(prev, event, {
+        settings: settingsRef.current,
+        now: Date.now(),
+      });
+      if (state === prev) return;
+
+      commitState(state);
+      if (record) addSessionRecord(record);
+      if (entry) appendTimerEvent(entry);
+      if (announcement) announce(prev, state, announcement);
+    },
+    [commitState, announce]
+  );
+
+  // The interval only refreshes the display; the remaining time is always
+  // derived from the end timestamp, so throttled or sleeping tabs cannot drift.
+  // It reads the latest state through a ref so it is not restarted every tick.
+  const tickRef = useRef<() => void>(() => {});
+  tickRef.current = () => {
+    if (!workerOwned) {
+      dispatch({ type: "TICK" });
+      return;
+    }
+
+    const prev = stateRef.current;
+    if (!prev.isRunning || prev.overtime) return;
+
+    const remaining = getRemainingSeconds(prev);
+    if (remaining > 0) {
+      if (remaining !== prev.timeRemaining) commitState({ ...prev, timeRemaining: remaining, completed: false });
+      return;
+    }
+
+    // The worker's alarm can fire late for very short phases, so nudge it
+    if (expiryReportedRef.current !== prev.endsAt) {
+      expiryReportedRef.current = prev.endsAt;
+      runWorkerCommand('expire');
+    }
+    if (prev.timeRemaining !== 0) commitState({ ...prev, timeRemaining: 0 });
+  };
+
   useEffect(() => {
-    const loadStoredTimerState = async () => {
-      if (!isExtensionContext()) return;
-      
-      try {
-        const storedState = await getFromLocalStorage<TimerState>(TIMER_STATE_KEY);
-        const lastUpdate = await getFromLocalStorage<number>(TIMER_LAST_UPDATE_KEY);
-        const storedSettings = await getFromLocalStorage<TimerSettings>(SETTINGS_KEY);
-        
-        if (storedSettings) {
-          settingsRef.current = storedSettings;
-        }
-        
-        if (storedState && lastUpdate) {
-          // Calculate elapsed time more accurately
-          const elapsedSeconds = Math.floor((Date.now() - lastUpdate) / 1000);
-          
-          if (storedState.isRunning) {
-            storedState.timeRemaining = Math.max(0, storedState.timeRemaining - elapsedSeconds);
-            
-            // Check if timer would have completed
-            if (storedState.timeRemaining <= 0) {
-              handleTimerCompletion(storedState.mode);
-            } else {
-              // Continue running timer
-              setTimerState(storedState);
-              if (!intervalRef.current) {
-                startTimerInterval();
-              }
-            }
-          } else {
-            setTimerState(storedState);
-          }
-          
-          lastUpdateRef.current = Date.now();
-        }
-      } catch (error) {
-        console.error("Error loading timer state:", error);
-      }
+    if (!timerState.isRunning) return;
+
+    const intervalId = window.setInterval(() => tickRef.current(), TICK_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [timerState.isRunning]);
+
+  // Tick while focus runs in the standalone app; the worker loops the tick in
+  // its offscreen document
+  const ticking = !workerOwned && sounds.tickDuringFocus && timerState.mode === "focus" && timerState.isRunning;
+  useEffect(() => {
+    if (!ticking) return;
+
+    let cancelled = false;
+    let audio: HTMLAudioElement | null = null;
+    getSoundSource("tick", sounds.tick.soundId).then((src) => {
+      if (cancelled || !src) return;
+
+      audio = new Audio(src);
+      audio.loop = true;
+      audio.volume = sounds.tick.volume / 100;
+      audio.play().catch((error) => console.error("Error playing the tick:", error));
+    });
+
+    return () => {
+      cancelled = true;
+      audio?.pause();
+    };
+  }, [ticking, sounds.tick]);
+
+  // Warn a minute before the phase ends in the standalone app; the worker
+  // arms an alarm for it. Only a countdown crossing the mark counts, so
+  // phases started with less than a minute left stay quiet.
+  const lastRemainingRef = useRef(timerState.timeRemaining);
+  useEffect(() => {
+    const lastRemaining = lastRemainingRef.current;
+    lastRemainingRef.current = timerState.timeRemaining;
+    if (workerOwned || !timerState.isRunning || timerState.overtime) return;
+
+    if (lastRemaining > ONE_MINUTE_WARNING_SECONDS && timerState.timeRemaining <= ONE_MINUTE_WARNING_SECONDS && timerState.timeRemaining > 0) {
+      speakCue("oneMinuteLeft", Math.ceil(timerState.timeRemaining / 60), timerState.activeTaskId);
+    }
+  }, [timerState, workerOwned, speakCue]);
+
+  // Render a state pushed by the worker
+  const renderWorkerState = useCallback((state: TimerState) => {
+    commitState({ ...state, timeRemaining: getRemainingSeconds(state) });
+  }, [commitState]);
+
+  // Subscribe to the timer state owned by the worker
+  useEffect(() => {
+    if (!workerOwned) return;
+
+    const refreshState = () => {
+      runWorkerCommand('getState').then((state) => {
+        if (state) renderWorkerState(state);
+      });
     };
-    
-    loadStoredTimerState();
-    
-    // Sync timer across tabs when visibility changes
+
+    refreshState();
+    const stopListening = listenForTimerState(renderWorkerState);
+
+    // Pick up anything missed while the tab was hidden
     const handleVisibilityChange = () => {
       if (document.visibilityState === 'visible') {
-        loadStoredTimerState();
+        refreshState();
       }
     };
-    
+
     document.addEventListener('visibilitychange', handleVisibilityChange);
     return () => {
+      stopListening();
       document.removeEventListener('visibilitychange', handleVisibilityChange);
     };
-  }, []);
+  }, [workerOwned, renderWorkerState]);
 
-  // Helper function to start timer interval
-  const startTimerInterval = useCallback(() => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-    }
+  const resetTimer = useCallback(
+    (mode: TimerMode) => {
+      if (workerOwned) {
+        runWorkerCommand('reset', { mode });
+        return;
+      }
 
-    intervalRef.current = window.setInterval(() => {
-      setTimerState((prev) => {
-        if (prev.timeRemaining <= 1) {
-          return handleTimerCompletion(prev.mode);
-        }
+      dispatch({ type: "RESET", mode });
+    },
+    [workerOwned, dispatch]
+  );
 
-        const newState = {
-          ...prev,
-          timeRemaining: prev.timeRemaining - 1,
-          completed: false,
-        };
+  const cancelAutoStart = useCallback(() => {
+    if (workerOwned) {
+      runWorkerCommand('cancelAutoStart');
+      return;
+    }
 
-        // Save state more frequently for better sync
-        saveToLocalStorage(TIMER_STATE_KEY, newState);
-        saveToLocalStorage(TIMER_LAST_UPDATE_KEY, Date.now());
+    dispatch({ type: "CANCEL_AUTO_START" });
+  }, [workerOwned, dispatch]);
 
-        return newState;
-      });
-    }, 1000);
-  }, []);
+  const startTimer = useCallback(() => {
+    const state = stateRef.current;
+    if (state.isRunning) return;
 
-  // Handle timer completion with proper TypeScript types
-  const handleTimerCompletion = (currentMode: TimerMode): TimerState => {
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
+    if (!canStartPhase(state, settingsRef.current.workSchedule)) {
+      toast("Outside working hours. The timer starts again when your day does.");
+      if (state.autoStartAt !== null) cancelAutoStart();
+      return;
     }
 
-    const nextMode: TimerMode = currentMode === "focus" ? "break" : "focus";
-    const nextDuration = nextMode === "focus" 
-      ? minutesToSeconds(settingsRef.current.focusDuration)
-      : minutesToSeconds(settingsRef.current.breakDuration);
-
-    // Play sound and show notification
-    if (currentMode === "focus") {
-      playSingleAudio(breakAudioRef.current, 'break_start');
-      toast("Focus session complete! Time for a break.");
-    } else {
-      playSingleAudio(focusAudioRef.current, 'focus_start');
-      toast("Break complete! Ready to focus again?");
+    if (workerOwned) {
+      runWorkerCommand('start');
+      return;
     }
 
-    const newState: TimerState = {
-      mode: nextMode,
-      timeRemaining: nextDuration,
-      isRunning: false,
-      breakActivity: null,
-      completed: true,
-    };
+    dispatch({ type: state.currentPhase ? "RESUME" : "START" });
+  }, [workerOwned, cancelAutoStart, dispatch]);
 
-    // Ensure state is saved when timer completes
-    saveToLocalStorage(TIMER_STATE_KEY, newState);
-    saveToLocalStorage(TIMER_LAST_UPDATE_KEY, Date.now());
+  const pauseTimer = useCallback(() => {
+    // Overtime has no pause; the user ends it by taking a break
+    if (!stateRef.current.isRunning || stateRef.current.overtime) return;
 
-    return newState;
-  };
+    if (workerOwned) {
+      runWorkerCommand('pause');
+      return;
+    }
 
-  const resetTimer = useCallback(
-    (mode: TimerMode) => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
+    dispatch({ type: "PAUSE" });
+  }, [workerOwned, dispatch]);
+
+  // Record why the current pause happened
+  const labelPause = useCallback(
+    (reason: InterruptionReason, note?: string) => {
+      if (workerOwned) {
+        runWorkerCommand('labelPause', { reason, note });
+        return;
       }
 
-      const newState = {
-        mode,
-        timeRemaining:
-          mode === "focus"
-            ? minutesToSeconds(settingsRef.current.focusDuration)
-            : minutesToSeconds(settingsRef.current.breakDuration),
-        isRunning: false,
-        breakActivity: null,
-        completed: false,
-      };
-      
-      setTimerState(newState);
+      dispatch({ type: "LABEL_PAUSE", reason, note });
     },
-    []
+    [workerOwned, dispatch]
   );
 
-  const startTimer = useCallback(() => {
-    if (timerState.isRunning) return;
+  // End a focus phase that is running in overtime and move on to the break
+  const finishFocus = useCallback(() => {
+    if (!stateRef.current.overtime) return;
 
-    if (timerState.timeRemaining <= 0) {
-      resetTimer(timerState.mode);
+    if (workerOwned) {
+      runWorkerCommand('finishFocus');
       return;
     }
 
-    const newState = { ...timerState, isRunning: true, completed: false };
-    setTimerState(newState);
-    
-    // Save state when starting timer
-    saveToLocalStorage(TIMER_STATE_KEY, newState);
-    saveToLocalStorage(TIMER_LAST_UPDATE_KEY, Date.now());
-    
-    startTimerInterval();
-  }, [timerState, resetTimer, startTimerInterval]);
+    dispatch({ type: "COMPLETE" });
+  }, [workerOwned, dispatch]);
 
-  const pauseTimer = useCallback(() => {
-    if (!timerState.isRunning) return;
+  // Add time to the phase under way, up to the configured number of times per phase
+  const extendTimer = useCallback(
+    (minutes: number) => {
+      if (getExtensionsLeft(stateRef.current, settingsRef.current) <= 0) return;
+
+      if (workerOwned) {
+        runWorkerCommand('extend', { minutes });
+        return;
+      }
+
+      dispatch({ type: "EXTEND", seconds: minutesToSeconds(minutes) });
+    },
+    [workerOwned, dispatch]
+  );
+
+  // Watch for input on the page in the standalone app; the worker uses chrome.idle
+  const { idleAction, idleThreshold } = settings;
+  useEffect(() => {
+    if (workerOwned || idleAction === "off") return;
+
+    return listenForPageIdle(
+      minutesToSeconds(idleThreshold) * 1000,
+      (since) => dispatch({ type: "IDLE_START", since }),
+      () => dispatch({ type: "IDLE_END" })
+    );
+  }, [workerOwned, idleAction, idleThreshold, dispatch]);
+
+  // Answer "I was away": keep the time as focus, or leave it out
+  const resolveIdle = useCallback(
+    (keep: boolean) => {
+      if (workerOwned) {
+        runWorkerCommand('resolveIdle', { keep });
+        return;
+      }
 
-    if (intervalRef.current) {
-      clearInterval(intervalRef.current);
-      intervalRef.current = null;
+      // Keeping paused time resumes the timer
+      dispatch({ type: "RESOLVE_IDLE", keep });
+    },
+    [workerOwned, dispatch]
+  );
+
+  // Move straight on to the next phase, recording this one as skipped
+  const skipPhase = useCallback(() => {
+    if (workerOwned) {
+      runWorkerCommand('skip');
+      return;
     }
 
-    setTimerState((prev) => ({ ...prev, isRunning: false }));
-  }, [timerState.isRunning]);
+    dispatch({ type: "SKIP" });
+  }, [workerOwned, dispatch]);
+
+  // Put off a phase that has not begun; it starts by itself afterwards
+  const snoozePhase = useCallback(
+    (minutes: number) => {
+      if (workerOwned) {
+        runWorkerCommand('snooze', { minutes });
+        return;
+      }
+
+      dispatch({ type: "SNOOZE", seconds: minutesToSeconds(minutes) });
+    },
+    [workerOwned, dispatch]
+  );
+
+  notificationActionsRef.current = {
+    start: startTimer,
+    snooze: () => snoozePhase(NOTIFICATION_SNOOZE_MINUTES),
+    skip: skipPhase,
+  };
+
+  // Start the pending phase once its grace period is over. The worker arms an
+  // alarm for this too, but alarms can fire late for short delays.
+  useEffect(() => {
+    const { autoStartAt } = timerState;
+    if (autoStartAt === null || timerState.isRunning) return;
+
+    const timeoutId = setTimeout(() => {
+      if (workerOwned) {
+        runWorkerCommand('expire');
+      } else {
+        startTimer();
+      }
+    }, Math.max(0, autoStartAt - Date.now()));
+
+    return () => clearTimeout(timeoutId);
+  }, [timerState, workerOwned, startTimer]);
+
+  // Follow the working-hours schedule in the standalone app; the worker checks
+  // it on an alarm. The check reads the latest state through a ref so the
+  // interval is not restarted on every tick.
+  const scheduleCheckRef = useRef<() => void>(() => {});
+  const workDayStartedRef = useRef<string | null>(null);
+  scheduleCheckRef.current = () => {
+    const schedule = settingsRef.current.workSchedule;
+    if (!schedule.enabled) return;
+
+    const now = new Date();
+    if (timerState.isRunning && schedule.outsideHours === "pause" && !isWithinWorkingHours(schedule, now)) {
+      pauseTimer();
+      if (settingsRef.current.notifications.workHoursOver) {
+        toast("Working hours are over. The timer is paused.");
+      }
+      return;
+    }
+
+    const today = now.toDateString();
+    if (
+      schedule.autoStartFirstFocus && isStartOfWorkDay(schedule, now) && workDayStartedRef.current !== today &&
+      timerState.mode === "focus" && !timerState.isRunning && !timerState.currentPhase
+    ) {
+      workDayStartedRef.current = today;
+      startTimer();
+    }
+  };
+
+  useEffect(() => {
+    if (workerOwned) return;
+
+    const intervalId = setInterval(() => scheduleCheckRef.current(), SCHEDULE_CHECK_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [workerOwned]);
 
   const selectBreakActivity = useCallback(
     (activity: BreakActivity) => {
-      setTimerState((prev) => ({ ...prev, breakActivity: activity }));
-      // Auto-start the timer when an activity is selected
-      if (activity && !timerState.isRunning) {
-        setTimeout(() => startTimer(), 100); // Small timeout to ensure state updates first
+      // Choosing an activity starts the break right away
+      if (workerOwned) {
+        runWorkerCommand('selectActivity', { activity });
+        return;
       }
+
+      dispatch({ type: "SELECT_ACTIVITY", activity });
     },
-    [timerState.isRunning, startTimer]
+    [workerOwned, dispatch]
   );
 
-  const updateFocusDuration = useCallback(
-    (minutes: number) => {
-      if (!timerState.isRunning && timerState.mode === "focus") {
-        setTimerState((prev) => ({
-          ...prev,
-          timeRemaining: minutesToSeconds(minutes),
-        }));
+  const selectTask = useCallback(
+    (taskId: string | null) => {
+      if (workerOwned) {
+        runWorkerCommand('selectTask', { taskId });
+        return;
       }
+
+      dispatch({ type: "SELECT_TASK", taskId });
     },
-    [timerState.isRunning, timerState.mode]
+    [workerOwned, dispatch]
   );
 
-  const updateBreakDuration = useCallback(
-    (minutes: number) => {
-      if (!timerState.isRunning && timerState.mode === "break") {
-        setTimerState((prev) => ({
-          ...prev,
-          timeRemaining: minutesToSeconds(minutes),
-        }));
+  const updateDuration = useCallback(
+    (mode: TimerMode, minutes: number) => {
+      if (timerState.isRunning || timerState.mode !== mode) return;
+
+      if (workerOwned) {
+        runWorkerCommand('setDuration', { mode, minutes });
+        return;
       }
+
+      dispatch({ type: "SET_DURATION", mode, seconds: minutesToSeconds(minutes) });
     },
-    [timerState.isRunning, timerState.mode]
+    [timerState.isRunning, timerState.mode, workerOwned, dispatch]
+  );
+
+  // Follow duration changes made elsewhere, such as switching presets, while
+  // the current phase is idle
+  const previousSettingsRef = useRef(settings);
+  useEffect(() => {
+    const previousSettings = previousSettingsRef.current;
+    previousSettingsRef.current = settings;
+
+    // A proportional break was sized by the focus before it, not by the break duration
+    if (timerState.mode === "break" && settings.breakRule.type === "proportional") return;
+
+    const duration = getModeDuration(timerState.mode, settings);
+    if (duration !== getModeDuration(timerState.mode, previousSettings)) {
+      updateDuration(timerState.mode, duration / 60);
+    }
+  }, [settings, timerState.mode, updateDuration]);
+
+  const updateFocusDuration = useCallback(
+    (minutes: number) => updateDuration("focus", minutes),
+    [updateDuration]
+  );
+
+  const updateBreakDuration = useCallback(
+    (minutes: number) => updateDuration("break", minutes),
+    [updateDuration]
+  );
+
+  const updateLongBreakDuration = useCallback(
+    (minutes: number) => updateDuration("longBreak", minutes),
+    [updateDuration]
   );
 
   return {
     timerState,
     startTimer,
     pauseTimer,
+    labelPause,
     resetTimer,
+    skipPhase,
+    snoozePhase,
+    finishFocus,
+    extendTimer,
+    resolveIdle,
+    cancelAutoStart,
     selectBreakActivity,
+    selectTask,
     updateFocusDuration,
     updateBreakDuration,
+    updateLongBreakDuration,
   };
 };
@@ -1,17 +1,144 @@
 
-import React from "react";
-import PlatformerGame from "@/components/PlatformerGame";
+import React, { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import FocusMode from "@/components/FocusMode";
+import BreakMode from "@/components/BreakMode";
+import FloatingTimer from "@/components/FloatingTimer";
+import { TimerSettings } from "@/types";
+import { useTimer } from "@/hooks/useTimer";
+import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
+import { getStoredSettings, listenForSettings, saveSettings } from "@/utils/settingsStorage";
+import { defaultTimerSettings, getExtensionsLeft, getSnoozesLeft, isBreakMode } from "@/utils/timerUtils";
+import { isExtensionContext } from "@/utils/chromeUtils";
 
+// The FocusFlow widget: the floating timer, and the panel it opens with the
+// focus or break view. The standalone app opens with the panel showing.
 const Index: React.FC = () => {
-  const handleReturnFromGame = () => {
-    // For now, just reload the page or handle return logic
-    window.location.reload();
+  const [settings, setSettings] = useState<TimerSettings>(defaultTimerSettings);
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
+  const [isOpen, setIsOpen] = useState(() => !isExtensionContext());
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getStoredSettings().then((storedSettings) => {
+      if (cancelled) return;
+      setSettings(storedSettings);
+      setSettingsLoaded(true);
+    });
+
+    const stopListening = listenForSettings(setSettings);
+
+    return () => {
+      cancelled = true;
+      stopListening();
+    };
+  }, []);
+
+  const updateSettings = useCallback((newSettings: TimerSettings) => {
+    setSettings(newSettings);
+    saveSettings(newSettings).catch((error) => {
+      console.error("Error saving settings:", error);
+      toast.error("Could not save your settings");
+    });
+  }, []);
+
+  const {
+    timerState,
+    startTimer,
+    pauseTimer,
+    labelPause,
+    resetTimer,
+    skipPhase,
+    finishFocus,
+    extendTimer,
+    resolveIdle,
+    cancelAutoStart,
+    snoozePhase,
+    selectBreakActivity,
+    selectTask,
+  } = useTimer({ settings });
+
+  const extensionsLeft = getExtensionsLeft(timerState, settings);
+  const snoozesLeft = getSnoozesLeft(timerState, settings);
+
+  useKeyboardShortcuts({
+    shortcuts: settings.shortcuts,
+    onToggleTimer: () => (timerState.isRunning ? pauseTimer() : startTimer()),
+    onSkip: skipPhase,
+    onOpenPanel: () => setIsOpen(true),
+    onExtend: extendTimer,
+  });
+
+  // Durations are settings; the timer follows them while the phase is idle
+  const changeDuration = (key: "focusDuration" | "breakDuration" | "longBreakDuration") => (minutes: number) => {
+    updateSettings({ ...settings, [key]: minutes });
   };
 
+  // Nothing is shown until the stored settings are in, so defaults never flash
+  if (!settingsLoaded) return null;
+
   return (
-    <div>
-      <PlatformerGame onReturn={handleReturnFromGame} />
-    </div>
+    <>
+      {isOpen && (
+        <div className="fixed inset-0 z-[9999] overflow-y-auto bg-black/20 backdrop-blur-sm p-4 sm:p-8">
+          {isBreakMode(timerState.mode) ? (
+            <BreakMode
+              timerState={timerState}
+              onStart={startTimer}
+              onPause={pauseTimer}
+              onReset={() => resetTimer(timerState.mode)}
+              onSelectActivity={selectBreakActivity}
+              breakDuration={timerState.mode === "longBreak" ? settings.longBreakDuration : settings.breakDuration}
+              onChangeBreakDuration={changeDuration(timerState.mode === "longBreak" ? "longBreakDuration" : "breakDuration")}
+              onCancelAutoStart={cancelAutoStart}
+              onSnooze={snoozePhase}
+              snoozesLeft={snoozesLeft}
+              onExtend={extendTimer}
+              extensionsLeft={extensionsLeft}
+              onSkip={skipPhase}
+            />
+          ) : (
+            <FocusMode
+              timerState={timerState}
+              onStart={startTimer}
+              onPause={pauseTimer}
+              onReset={() => resetTimer("focus")}
+              focusDuration={settings.focusDuration}
+              breakDuration={settings.breakDuration}
+              longBreakDuration={settings.longBreakDuration}
+              sessionsBeforeLongBreak={settings.sessionsBeforeLongBreak}
+              onChangeFocusDuration={changeDuration("focusDuration")}
+              onChangeBreakDuration={changeDuration("breakDuration")}
+              onChangeLongBreakDuration={changeDuration("longBreakDuration")}
+              onSelectTask={selectTask}
+              autoStart={settings}
+              onChangeAutoStart={(changes) => updateSettings({ ...settings, ...changes })}
+              onCancelAutoStart={cancelAutoStart}
+              onSnooze={snoozePhase}
+              onFinishFocus={finishFocus}
+              onLabelPause={labelPause}
+              onExtend={extendTimer}
+              onSkip={skipPhase}
+              onResolveIdle={resolveIdle}
+              settings={settings}
+              onChangeSettings={updateSettings}
+            />
+          )}
+        </div>
+      )}
+      <FloatingTimer
+        isOpen={isOpen}
+        timerState={timerState}
+        togglePopup={() => setIsOpen((open) => !open)}
+        settings={settings}
+        onChangeSettings={updateSettings}
+        onExtend={extendTimer}
+        extensionsLeft={extensionsLeft}
+        onSnooze={snoozePhase}
+        snoozesLeft={snoozesLeft}
+      />
+    </>
   );
 };
 
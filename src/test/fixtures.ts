@@ -0,0 +1,33 @@
+// Records shared by the unit tests
+
+import { SessionRecord } from "@/types";
+
+// 10:00 local time on Monday 5 January 2026
+const DEFAULT_START = new Date(2026, 0, 5, 10).getTime();
+
+/**
+ * A completed 25 minute focus session with the given fields changed. The id
+ * follows the mode and start, so records that only differ there stay apart.
+ */
+export const sessionRecord = (changes: Partial<SessionRecord> = {}): SessionRecord => {
+  const startedAt = changes.startedAt ?? DEFAULT_START;
+
+  return {
+    id: `${changes.mode ?? "focus"}-${startedAt}`,
+    mode: "focus",
+    plannedDuration: 25 * 60,
+    actualDuration: 25 * 60,
+    overtimeDuration: 0,
+    startedAt,
+    endedAt: startedAt + 25 * 60 * 1000,
+    pauses: [],
+    outcome: "completed",
+    breakActivity: null,
+    taskId: null,
+    extensions: [],
+    idlePeriods: [],
+    idleDuration: 0,
+    unlocks: [],
+    ...changes,
+  };
+};
@@ -16,30 +16,116 @@ interface Chrome {
       [key: string]: any;
     };
     // Add messaging APIs
-    sendMessage(message: any, responseCallback?: (response: any) => void): void;
+    sendMessage(message: any, responseCallback: (response: any) => void): void;
+    sendMessage(message: unknown): Promise<unknown>;
     onMessage: {
       addListener(callback: (message: any, sender: MessageSender, sendResponse: (response?: any) => void) => boolean | void): void;
       removeListener(callback: (message: any, sender: MessageSender, sendResponse: (response?: any) => void) => boolean | void): void;
     };
+    // Worker lifecycle
+    onInstalled: {
+      addListener(callback: (details: { reason: string; previousVersion?: string }) => void): void;
+    };
+    onStartup: {
+      addListener(callback: () => void): void;
+    };
   };
   storage: {
     sync: {
-      get(keys: string | string[] | object | null, callback: (items: { [key: string]: any }) => void): void;
+      get(keys: string | string[] | object | null, callback: (items: StorageItems) => void): void;
       set(items: object, callback?: () => void): void;
       remove(keys: string | string[], callback?: () => void): void;
       clear(callback?: () => void): void;
     };
     local: {
-      get(keys: string | string[] | object | null, callback: (items: { [key: string]: any }) => void): void;
-      set(items: object, callback?: () => void): void;
-      remove(keys: string | string[], callback?: () => void): void;
+      get(keys: string | string[] | object | null, callback: (items: StorageItems) => void): void;
+      get(keys: string | string[] | object | null): Promise<StorageItems>;
+      set(items: object, callback: () => void): void;
+      set(items: object): Promise<void>;
+      remove(keys: string | string[], callback: () => void): void;
+      remove(keys: string | string[]): Promise<void>;
       clear(callback?: () => void): void;
     };
+    onChanged: {
+      addListener(callback: (changes: { [key: string]: StorageChange }, areaName: string) => void): void;
+      removeListener(callback: (changes: { [key: string]: StorageChange }, areaName: string) => void): void;
+    };
   };
   tabs?: {
-    query(queryInfo: object, callback: (tabs: any[]) => void): void;
-    sendMessage(tabId: number, message: any, responseCallback?: (response: any) => void): void;
+    query(queryInfo: object, callback: (tabs: Tab[]) => void): void;
+    query(queryInfo: object): Promise<Tab[]>;
+    sendMessage(tabId: number, message: any, responseCallback: (response: any) => void): void;
+    sendMessage(tabId: number, message: unknown): Promise<unknown>;
+    create(createProperties: { url: string }): Promise<Tab>;
+    onCreated: {
+      addListener(callback: (tab: Tab) => void): void;
+    };
+  };
+  // The APIs below are only used by the background worker
+  alarms: {
+    create(name: string, alarmInfo: { when?: number; delayInMinutes?: number; periodInMinutes?: number }): void;
+    clear(name: string): Promise<boolean>;
+    get(name: string): Promise<Alarm | undefined>;
+    onAlarm: {
+      addListener(callback: (alarm: Alarm) => void): void;
+    };
+  };
+  action: {
+    setBadgeText(details: { text: string }): Promise<void>;
+    setBadgeBackgroundColor(details: { color: string }): Promise<void>;
+    setBadgeTextColor(details: { color: string }): Promise<void>;
+    setTitle(details: { title: string }): Promise<void>;
+  };
+  notifications: {
+    create(
+      notificationId: string,
+      options: { type: "basic"; iconUrl: string; title: string; message: string; buttons?: { title: string }[] }
+    ): void;
+    clear(notificationId: string): void;
+    onButtonClicked: {
+      addListener(callback: (notificationId: string, buttonIndex: number) => void): void;
+    };
+    onClicked: {
+      addListener(callback: (notificationId: string) => void): void;
+    };
+  };
+  offscreen: {
+    hasDocument(): Promise<boolean>;
+    createDocument(parameters: { url: string; reasons: string[]; justification: string }): Promise<void>;
   };
+  idle: {
+    setDetectionInterval(intervalInSeconds: number): void;
+    onStateChanged: {
+      addListener(callback: (newState: "active" | "idle" | "locked") => void): void;
+    };
+  };
+  commands: {
+    getAll(): Promise<{ name?: string; shortcut?: string }[]>;
+    onCommand: {
+      addListener(callback: (command: string) => void): void;
+    };
+  };
+}
+
+export interface Tab {
+  id?: number;
+  url?: string;
+  active?: boolean;
+}
+
+export interface Alarm {
+  name: string;
+  scheduledTime: number;
+  periodInMinutes?: number;
+}
+
+// Values read from chrome.storage, keyed by storage key
+type StorageItems = { [key: string]: any };
+
+// Define StorageChange interface
+export interface StorageChange {
+  oldValue?: unknown;
+  newValue?: unknown;
 }
 
 // Define MessageSender interface
@@ -1,11 +1,142 @@
 
-export type TimerMode = 'focus' | 'break';
+export type TimerMode = 'focus' | 'break' | 'longBreak';
 
 export type BreakActivity = 'game' | 'relax' | null;
 
 export interface TimerSettings {
+  version: number; // schema version the settings were written with
   focusDuration: number; // in minutes
   breakDuration: number; // in minutes
+  breakRule: BreakRule;
+  longBreakDuration: number; // in minutes
+  sessionsBeforeLongBreak: number; // focus sessions per set
+  autoStartBreaks: boolean; // start the break as soon as focus ends
+  autoStartFocus: boolean; // start the next focus block as soon as a break ends
+  autoStartDelay: number; // in seconds, grace period before an automatic start
+  presets: TimerPreset[]; // user-defined presets; the built-in ones are not stored
+  overtimeEnabled: boolean; // keep counting up when focus reaches zero
+  scaleBreakWithFocus: boolean; // lengthen the break after focus overtime
+  dailyGoalType: DailyGoalType;
+  dailyGoalTarget: number; // minutes or sessions per day, 0 turns the goal off
+  goalStreak: GoalStreak;
+  maxExtensionsPerPhase: number; // extends or snoozes allowed per phase, 0 turns them off
+  workSchedule: WorkSchedule;
+  idleAction: IdleAction;
+  idleThreshold: number; // in minutes without input before focus counts as idle
+  shortcuts: ShortcutBindings; // in-page shortcuts of the standalone app; the extension uses chrome.commands
+  notifications: NotificationSettings;
+  sounds: SoundSettings;
+  speech: SpeechSettings;
+  blocking: BlockingSettings;
+}
+
+// Sites the extension covers during running focus: those on the blocklist,
+// or in allowlist mode every site not on the allowlist. Entries are hosts
+// like "example.com", which also covers its subdomains, or wildcards like
+// "*.example.com" and "news.*".
+export interface BlockingSettings {
+  enabled: boolean;
+  mode: 'blocklist' | 'allowlist';
+  blocklist: string[];
+  allowlist: string[];
+  unlockMinutes: number; // how long typing a reason opens a blocked site
+}
+
+// Moments FocusFlow can announce out loud
+export type SpeechCue = 'focusComplete' | 'breakComplete' | 'oneMinuteLeft';
+
+export interface SpeechSettings {
+  enabled: boolean;
+  replaceSounds: boolean; // speak instead of the phase sounds, not alongside them
+  voiceURI: string; // empty for the browser's default voice
+  rate: number; // percent of the normal speaking rate, 50-200
+  templates: Record<SpeechCue, string>; // {task} and {minutes} are filled in when spoken
+}
+
+// Moments FocusFlow plays a sound for
+export type SoundCue = 'breakStart' | 'focusStart' | 'tick';
+
+export interface SoundCueSettings {
+  soundId: string; // a bundled sound, "custom:<id>" for an upload, or "none"
+  volume: number; // 0-100
+}
+
+export interface SoundSettings {
+  breakStart: SoundCueSettings; // focus ends, including overtime
+  focusStart: SoundCueSettings; // a break ends
+  tick: SoundCueSettings; // loops while focus runs
+  tickDuringFocus: boolean;
+}
+
+// A sound the user uploaded, kept in IndexedDB
+export interface CustomSound {
+  id: string; // "custom:<uuid>", the id settings refer to it by
+  name: string;
+  dataUrl: string;
+  size: number; // in bytes
+  addedAt: number; // epoch ms
+}
+
+export type CustomSoundInfo = Omit<CustomSound, 'dataUrl'>;
+
+// Moments FocusFlow can notify about
+export type NotificationEvent = 'focusComplete' | 'breakComplete' | 'overtime' | 'goalMet' | 'workHoursOver';
+
+// Whether each event shows a notification; sounds are set separately
+export type NotificationSettings = Record<NotificationEvent, boolean>;
+
+// Keyboard shortcut actions, named like the commands in manifest.json
+export type ShortcutAction = 'toggle-timer' | 'skip-phase' | 'open-panel' | 'extend-timer';
+
+// Key combination per action, like "Alt+Shift+S"; empty when unbound
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+// How short breaks are sized: the fixed break duration, or in proportion to
+// the focus phase before them
+export interface BreakRule {
+  type: 'fixed' | 'proportional';
+  focusMinutesPerBreakMinute: number; // 5 gives 1 minute of break per 5 of focus
+  minMinutes: number;
+  maxMinutes: number;
+}
+
+export type DailyGoalType = 'minutes' | 'sessions';
+
+// Working hours of one day of the week, as HH:mm in local time
+export interface WorkDay {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+// What happens when working hours end: pause the timer, or let the phase
+// under way finish without starting another
+export type OutsideHoursBehavior = 'pause' | 'finish';
+
+export interface WorkSchedule {
+  enabled: boolean;
+  days: WorkDay[]; // indexed like Date.getDay(), Sunday first
+  lunch: WorkDay; // the same every working day
+  outsideHours: OutsideHoursBehavior;
+  autoStartFirstFocus: boolean; // start focusing when the working day begins
+}
+
+// Consecutive days on which the daily goal was met
+export interface GoalStreak {
+  count: number;
+  lastMetDate: string | null; // yyyy-MM-dd of the most recent day the goal was met
+}
+
+// Named set of durations and auto-start flags that can be applied in one go
+export interface TimerPreset {
+  id: string;
+  name: string;
+  focusDuration: number; // in minutes
+  breakDuration: number; // in minutes
+  longBreakDuration: number; // in minutes
+  autoStartBreaks: boolean;
+  autoStartFocus: boolean;
+  builtIn?: boolean;
 }
 
 export interface TimerState {
@@ -14,6 +145,141 @@ export interface TimerState {
   isRunning: boolean;
   breakActivity: BreakActivity;
   completed: boolean;
+  sessionCount: number; // focus sessions completed in the current set
+  endsAt: number | null; // epoch ms when the running phase ends, null while paused
+  currentPhase: PhaseProgress | null; // null until the phase is first started
+  activeTaskId: string | null; // task the next focus sessions count against
+  autoStartAt: number | null; // epoch ms when the next phase starts by itself, null if it waits
+  overtime: boolean; // focus ran past zero and is counting up from endsAt
+  snoozes: number; // times the next phase was put off before it began; they count as extensions
+}
+
+export type InterruptionReason = 'meeting' | 'colleague' | 'phone' | 'distraction' | 'custom';
+
+export interface TimerPause {
+  startedAt: number; // epoch ms
+  endedAt: number | null; // epoch ms, null while still paused
+  reason?: InterruptionReason | null; // why focus was interrupted, null until the user picks one
+  note?: string; // free text for custom reasons, or the reason typed to unlock a site
+  site?: string; // host unlocked past the blocker, only on records from before unlocks were kept apart
+}
+
+// A blocked site opened during focus by typing a reason. The timer keeps
+// running, so it is not counted as a pause.
+export interface SiteUnlock {
+  at: number; // epoch ms
+  site: string;
+  reason: string;
+}
+
+// What to do when the user goes idle during focus: nothing, pause the
+// timer, or keep it running and mark the time as idle
+export type IdleAction = 'off' | 'pause' | 'mark';
+
+// A stretch of focus without user input
+export interface IdlePeriod {
+  startedAt: number; // epoch ms of the last input
+  endedAt: number | null; // null while still away
+  paused: boolean; // whether the timer was paused for it
+  kept: boolean | null; // the user's answer to "keep this time?", null until answered
+}
+
+// Time added to a phase while it was under way
+export interface PhaseExtension {
+  at: number; // epoch ms
+  seconds: number;
+}
+
+// Bookkeeping for the phase in progress, turned into a SessionRecord when it ends
+export interface PhaseProgress {
+  startedAt: number; // epoch ms of the first start
+  plannedDuration: number; // in seconds
+  pauses: TimerPause[];
+  breakActivity: BreakActivity; // last activity chosen during a break
+  taskId: string | null; // task being worked on, for focus phases
+  extensions?: PhaseExtension[]; // missing on phases started before extensions existed
+  idlePeriods?: IdlePeriod[]; // missing on phases started before idle detection existed
+  unlocks?: SiteUnlock[]; // missing on phases started before unlocks were kept apart
+}
+
+export type SessionOutcome = 'completed' | 'reset' | 'skipped';
+
+export interface SessionRecord {
+  id: string;
+  mode: TimerMode;
+  plannedDuration: number; // in seconds
+  actualDuration: number; // in seconds, excluding pauses and overtime
+  overtimeDuration: number; // in seconds spent past the planned end in flow mode
+  startedAt: number; // epoch ms
+  endedAt: number; // epoch ms
+  pauses: TimerPause[];
+  outcome: SessionOutcome;
+  breakActivity: BreakActivity;
+  taskId: string | null;
+  extensions: PhaseExtension[];
+  idlePeriods: IdlePeriod[];
+  idleDuration: number; // in seconds away while the timer ran, unless kept; not part of actualDuration
+  unlocks: SiteUnlock[]; // missing on records made before unlocks were kept apart
+}
+
+export interface Task {
+  id: string;
+  title: string;
+  tag: string; // project or tag, empty when not set
+  estimatedPomodoros: number;
+  done: boolean;
+  createdAt: number; // epoch ms
+}
+
+// Commands tabs send to the background worker, which owns the timer
+export type TimerCommand =
+  | 'getState'
+  | 'start'
+  | 'pause'
+  | 'reset'
+  | 'skip'
+  | 'expire'
+  | 'selectActivity'
+  | 'selectTask'
+  | 'cancelAutoStart'
+  | 'finishFocus'
+  | 'labelPause'
+  | 'extend'
+  | 'snooze'
+  | 'resolveIdle'
+  | 'logUnlock'
+  | 'setDuration';
+
+// Events that drive the timer state machine in src/utils/timerMachine.ts
+export type TimerEvent =
+  | { type: 'START' }
+  | { type: 'PAUSE' }
+  | { type: 'RESUME' }
+  | { type: 'TICK' }
+  | { type: 'SKIP' }
+  | { type: 'RESET'; mode?: TimerMode }
+  | { type: 'COMPLETE' }
+  | { type: 'EXTEND'; seconds: number }
+  | { type: 'SNOOZE'; seconds: number }
+  | { type: 'SET_DURATION'; mode: TimerMode; seconds: number }
+  | { type: 'IDLE_START'; since: number }
+  | { type: 'IDLE_END' }
+  | { type: 'RESOLVE_IDLE'; keep: boolean }
+  | { type: 'LABEL_PAUSE'; reason: InterruptionReason; note?: string }
+  | { type: 'SELECT_ACTIVITY'; activity: BreakActivity }
+  | { type: 'SELECT_TASK'; taskId: string | null }
+  | { type: 'CANCEL_AUTO_START' }
+  | { type: 'LOG_UNLOCK'; site: string; reason: string };
+
+export type TimerEventType = TimerEvent['type'];
+
+// One event that changed the timer, kept in the event log
+export interface TimerEventLogEntry {
+  type: TimerEventType;
+  at: number; // epoch ms
+  from: TimerMode; // mode before the event
+  to: TimerMode; // mode after it, different when the event ended the phase
+  sessionCount: number; // after the event
 }
 
 export interface CardType {
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { SessionRecord } from "@/types";
+import { sessionRecord } from "@/test/fixtures";
+import { defaultTimerSettings } from "./timerUtils";
+import { BACKUP_VERSION, BackupData, combineBackupData, diffBackupData, parseBackupFile, validateBackupData } from "./backupUtils";
+
+const data = (changes: Partial<BackupData> = {}): BackupData => ({
+  settings: defaultTimerSettings,
+  sessions: [],
+  tasks: [],
+  chatConversations: [],
+  customSounds: [],
+  ...changes,
+});
+
+const file = (changes: Record<string, unknown> = {}) => JSON.stringify({
+  app: "focusflow",
+  kind: "backup",
+  version: BACKUP_VERSION,
+  createdAt: "2026-01-05T10:00:00.000Z",
+  data: data(),
+  ...changes,
+});
+
+describe("parseBackupFile", () => {
+  it("reads a backup it made", () => {
+    const backup = parseBackupFile(file({ data: data({ sessions: [sessionRecord({ id: "a", startedAt: 1 })] }) }));
+
+    expect(backup.version).toBe(BACKUP_VERSION);
+    expect(backup.data.sessions).toHaveLength(1);
+  });
+
+  it("refuses files that are not backups", () => {
+    expect(() => parseBackupFile("{")).toThrow("not valid JSON");
+    expect(() => parseBackupFile(file({ kind: "sessions" }))).toThrow("not a FocusFlow backup");
+    expect(() => parseBackupFile(file({ version: "2" }))).toThrow("no version");
+    expect(() => parseBackupFile(file({ version: BACKUP_VERSION + 1 }))).toThrow("newer version");
+  });
+
+  it("accepts first version backups without uploaded sounds", () => {
+    const { customSounds: _, ...legacy } = data();
+    expect(parseBackupFile(file({ version: 1, data: legacy })).data.customSounds).toEqual([]);
+  });
+});
+
+describe("validateBackupData", () => {
+  it("names the first damaged entry", () => {
+    const sessions = [sessionRecord({ id: "a", startedAt: 1 }), { ...sessionRecord({ id: "b", startedAt: 2 }), mode: "nap" }];
+    expect(() => validateBackupData(data({ sessions: sessions as SessionRecord[] }))).toThrow("Entry 2 of the sessions is damaged");
+  });
+
+  it("checks every part before anything is written", () => {
+    expect(() => validateBackupData({ ...data(), settings: null })).toThrow("no settings");
+    expect(() => validateBackupData({ ...data(), tasks: {} })).toThrow("no tasks list");
+    expect(() => validateBackupData({ ...data(), chatConversations: [{ id: "c" }] })).toThrow("chat conversations is damaged");
+  });
+
+  it("requires uploaded sounds from the second version on", () => {
+    const { customSounds: _, ...missing } = data();
+    expect(() => validateBackupData(missing)).toThrow("no custom sounds list");
+
+    const sound = { id: "bell.mp3", name: "Bell", dataUrl: "data:audio/mpeg;base64,", size: 1, addedAt: 1 };
+    expect(() => validateBackupData({ ...data(), customSounds: [sound] })).toThrow("custom sounds is damaged");
+  });
+
+  it("repairs the settings like stored ones", () => {
+    const { settings } = validateBackupData({ ...data(), settings: { ...defaultTimerSettings, focusDuration: -5 } });
+    expect(settings.focusDuration).toBe(1);
+  });
+});
+
+describe("restoring", () => {
+  const current = data({ sessions: [sessionRecord({ id: "a", startedAt: 1 }), sessionRecord({ id: "b", startedAt: 3 })] });
+  const incoming = data({ sessions: [{ ...sessionRecord({ id: "b", startedAt: 3 }), actualDuration: 60 }, sessionRecord({ id: "c", startedAt: 2 })] });
+
+  it("keeps what is only on this device when merging, in time order", () => {
+    const merged = combineBackupData(current, incoming, "merge");
+
+    expect(merged.sessions.map(({ id }) => id)).toEqual(["a", "c", "b"]);
+    expect(merged.sessions.find(({ id }) => id === "b")?.actualDuration).toBe(60);
+  });
+
+  it("takes the backup as it is when replacing", () => {
+    expect(combineBackupData(current, incoming, "replace")).toBe(incoming);
+  });
+
+  it("counts what a restore would change", () => {
+    const sessions = (mode: "merge" | "replace") => diffBackupData(current, incoming, mode).find(({ section }) => section === "Sessions");
+
+    expect(sessions("merge")).toEqual({ section: "Sessions", added: 1, updated: 1, removed: 0, unchanged: 0 });
+    expect(sessions("replace")?.removed).toBe(1);
+  });
+});
@@ -0,0 +1,282 @@
+// Versioned backup of everything FocusFlow keeps on this device. The running
+// timer state and the audio_playing_* flags are transient and left out.
+
+import { CustomSound, SessionOutcome, SessionRecord, Task, TimerMode, TimerPreset, TimerSettings } from "@/types";
+import { isExtensionContext } from "./chromeUtils";
+import { getSessionRecords, replaceSessionRecords } from "./sessionHistory";
+import { getTasks, saveTasks } from "./taskStorage";
+import { getStoredSettings, saveSettings } from "./settingsStorage";
+import { StoredConversation, getChatConversations, saveChatConversations } from "./chatStorage";
+import { CUSTOM_SOUND_PREFIX, exportCustomSounds, replaceStoredSounds } from "./soundUtils";
+import { mergePresets } from "./presetUtils";
+import { normalizeSettings } from "./settingsSchema";
+
+// Version 2 added the uploaded sounds
+export const BACKUP_VERSION = 2;
+
+export type RestoreMode = "merge" | "replace";
+
+export interface BackupData {
+  settings: TimerSettings;
+  sessions: SessionRecord[];
+  tasks: Task[];
+  chatConversations: StoredConversation[];
+  customSounds: CustomSound[];
+}
+
+export interface BackupFile {
+  app: "focusflow";
+  kind: "backup";
+  version: number;
+  createdAt: string;
+  data: BackupData;
+}
+
+// What a restore would change in one part of the data
+export interface BackupSectionDiff {
+  section: string;
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+/**
+ * Reads everything stored on this device
+ */
+export const getBackupData = async (): Promise<BackupData> => {
+  const [settings, sessions, tasks, chatConversations, customSounds] = await Promise.all([
+    getStoredSettings(),
+    getSessionRecords(),
+    getTasks(),
+    getChatConversations(),
+    exportCustomSounds(),
+  ]);
+
+  return { settings, sessions, tasks, chatConversations, customSounds };
+};
+
+/**
+ * Serializes a backup file for download
+ */
+export const createBackupFile = (data: BackupData): string => {
+  const backup: BackupFile = {
+    app: "focusflow",
+    kind: "backup",
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    data,
+  };
+  return JSON.stringify(backup, null, 2);
+};
+
+const TIMER_MODES: TimerMode[] = ["focus", "break", "longBreak"];
+const SESSION_OUTCOMES: SessionOutcome[] = ["completed", "reset", "skipped"];
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+// Checks every entry of a list and names the first bad one
+const validateList = <T>(
+  value: unknown,
+  label: string,
+  isValid: (entry: Record<string, unknown>) => boolean
+): T[] => {
+  if (!Array.isArray(value)) {
+    throw new Error(`The backup has no ${label} list`);
+  }
+
+  const badIndex = value.findIndex((entry) => !isObject(entry) || !isValid(entry));
+  if (badIndex !== -1) {
+    throw new Error(`Entry ${badIndex + 1} of the ${label} is damaged`);
+  }
+  return value as T[];
+};
+
+/**
+ * Validates a backup file, throwing an error with a message for the user
+ */
+export const parseBackupFile = (content: string): BackupFile => {
+  let file: unknown;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  if (!isObject(file) || file.app !== "focusflow" || file.kind !== "backup" || !isObject(file.data)) {
+    throw new Error("The file is not a FocusFlow backup");
+  }
+  if (typeof file.version !== "number" || file.version < 1) {
+    throw new Error("The backup has no version");
+  }
+  if (file.version > BACKUP_VERSION) {
+    throw new Error("The backup was made by a newer version of FocusFlow");
+  }
+
+  return {
+    app: "focusflow",
+    kind: "backup",
+    version: file.version,
+    createdAt: typeof file.createdAt === "string" ? file.createdAt : "",
+    data: validateBackupData(file.data, file.version),
+  };
+};
+
+/**
+ * Checks every part of the data before anything is written, throwing an error
+ * with a message for the user
+ */
+export const validateBackupData = (data: unknown, version: number = BACKUP_VERSION): BackupData => {
+  if (!isObject(data) || !isObject(data.settings)) {
+    throw new Error("The backup has no settings");
+  }
+
+  return {
+    // Settings from older backups are migrated and repaired like stored ones
+    settings: normalizeSettings(data.settings).settings,
+    sessions: validateList<SessionRecord>(data.sessions, "sessions", (entry) =>
+      typeof entry.id === "string" &&
+      TIMER_MODES.includes(entry.mode as TimerMode) &&
+      SESSION_OUTCOMES.includes(entry.outcome as SessionOutcome) &&
+      typeof entry.plannedDuration === "number" &&
+      typeof entry.startedAt === "number" && typeof entry.endedAt === "number" &&
+      typeof entry.actualDuration === "number" && Array.isArray(entry.pauses)
+    ),
+    tasks: validateList<Task>(data.tasks, "tasks", (entry) =>
+      typeof entry.id === "string" && typeof entry.title === "string"
+    ),
+    chatConversations: validateList<StoredConversation>(data.chatConversations, "chat conversations", (entry) =>
+      typeof entry.id === "string" && Array.isArray(entry.messages)
+    ),
+    // Backups made before uploads were included have none
+    customSounds: version < 2 && data.customSounds === undefined
+      ? []
+      : validateList<CustomSound>(data.customSounds, "custom sounds", (entry) =>
+        typeof entry.id === "string" && entry.id.startsWith(CUSTOM_SOUND_PREFIX) &&
+        typeof entry.name === "string" && typeof entry.dataUrl === "string" &&
+        typeof entry.size === "number" && typeof entry.addedAt === "number"
+      ),
+  };
+};
+
+// Compares two lists of entries by a key
+const diffById = <T>(
+  section: string,
+  current: T[],
+  incoming: T[],
+  getKey: (entry: T) => string,
+  mode: RestoreMode
+): BackupSectionDiff => {
+  const currentByKey = new Map(current.map((entry) => [getKey(entry), JSON.stringify(entry)]));
+  const incomingKeys = new Set(incoming.map(getKey));
+  const diff: BackupSectionDiff = { section, added: 0, updated: 0, removed: 0, unchanged: 0 };
+
+  incoming.forEach((entry) => {
+    const existing = currentByKey.get(getKey(entry));
+    if (existing === undefined) diff.added++;
+    else if (existing === JSON.stringify(entry)) diff.unchanged++;
+    else diff.updated++;
+  });
+
+  // Merging keeps what is only on this device; replacing drops it
+  if (mode === "replace") {
+    diff.removed = current.filter((entry) => !incomingKeys.has(getKey(entry))).length;
+  }
+
+  return diff;
+};
+
+// Settings other than the presets, which are compared on their own
+const diffSettings = (current: TimerSettings, incoming: TimerSettings): BackupSectionDiff => {
+  const keys = (Object.keys({ ...current, ...incoming }) as (keyof TimerSettings)[]).filter((key) => key !== "presets");
+  const updated = keys.filter((key) => JSON.stringify(current[key]) !== JSON.stringify(incoming[key])).length;
+
+  return { section: "Settings", added: 0, updated, removed: 0, unchanged: keys.length - updated };
+};
+
+/**
+ * What restoring a backup would change, section by section
+ */
+export const diffBackupData = (current: BackupData, incoming: BackupData, mode: RestoreMode): BackupSectionDiff[] => {
+  const presetName = (preset: TimerPreset) => preset.name.toLowerCase();
+
+  return [
+    diffSettings(current.settings, incoming.settings),
+    diffById("Presets", current.settings.presets || [], incoming.settings.presets || [], presetName, mode),
+    diffById("Sessions", current.sessions, incoming.sessions, (record) => record.id, mode),
+    diffById("Tasks", current.tasks, incoming.tasks, (task) => task.id, mode),
+    diffById("Chat conversations", current.chatConversations, incoming.chatConversations, (conversation) => conversation.id, mode),
+    diffById("Custom sounds", current.customSounds, incoming.customSounds, (sound) => sound.id, mode),
+  ];
+};
+
+// Entries from the backup win over entries with the same key
+const mergeById = <T>(current: T[], incoming: T[], getKey: (entry: T) => string): T[] => {
+  const incomingKeys = new Set(incoming.map(getKey));
+  return [...current.filter((entry) => !incomingKeys.has(getKey(entry))), ...incoming];
+};
+
+/**
+ * The data after a restore. Merging keeps everything only found on this
+ * device; replacing takes the backup as it is.
+ */
+export const combineBackupData = (current: BackupData, incoming: BackupData, mode: RestoreMode): BackupData => {
+  if (mode === "replace") return incoming;
+
+  return {
+    settings: {
+      ...current.settings,
+      ...incoming.settings,
+      presets: mergePresets(current.settings.presets || [], incoming.settings.presets || []),
+    },
+    sessions: mergeById(current.sessions, incoming.sessions, (record) => record.id)
+      .sort((a, b) => a.startedAt - b.startedAt),
+    tasks: mergeById(current.tasks, incoming.tasks, (task) => task.id),
+    chatConversations: mergeById(current.chatConversations, incoming.chatConversations, (conversation) => conversation.id),
+    customSounds: mergeById(current.customSounds, incoming.customSounds, (sound) => sound.id),
+  };
+};
+
+// Writes each part in turn; every part is replaced as a whole or not at all
+const writeBackupData = async (data: BackupData): Promise<void> => {
+  await replaceStoredSounds(data.customSounds);
+  await replaceSessionRecords(data.sessions);
+  await saveTasks(data.tasks);
+  await saveChatConversations(data.chatConversations);
+  await saveSettings(data.settings);
+};
+
+/**
+ * Writes restored data to storage, after validating all of it. In the
+ * extension the worker stores it in one write; the web app keeps several
+ * stores, so it puts the old data back if any part fails.
+ */
+export const restoreBackupData = async (data: BackupData): Promise<void> => {
+  const checked = validateBackupData(data);
+
+  if (isExtensionContext()) {
+    return new Promise((resolve, reject) => {
+      chrome.runtime.sendMessage({ action: "restoreBackup", data: checked }, (response) => {
+        if (chrome.runtime.lastError) {
+          reject(chrome.runtime.lastError);
+        } else if (!response?.success) {
+          reject(new Error(response?.error || "Restoring the backup failed"));
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+
+  const previous = await getBackupData();
+  try {
+    await writeBackupData(checked);
+  } catch (error) {
+    await writeBackupData(previous).catch((rollbackError) => {
+      console.error("Error putting back the data after a failed restore:", rollbackError);
+    });
+    throw error;
+  }
+};
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { BlockingSettings } from "@/types";
+import { defaultBlockingSettings, isSiteBlocked, matchesSitePattern, normalizeSitePattern } from "./blockingUtils";
+
+const blocking = (changes: Partial<BlockingSettings> = {}): BlockingSettings => ({
+  ...defaultBlockingSettings,
+  enabled: true,
+  ...changes,
+});
+
+describe("normalizeSitePattern", () => {
+  it("keeps the host of a full URL typed in", () => {
+    expect(normalizeSitePattern("  https://www.YouTube.com/watch?v=1 ")).toBe("youtube.com");
+    expect(normalizeSitePattern("news.example.com:8080/today")).toBe("news.example.com");
+  });
+
+  it("accepts wildcards for whole labels", () => {
+    expect(normalizeSitePattern("*.example.com")).toBe("*.example.com");
+    expect(normalizeSitePattern("news.*")).toBe("news.*");
+  });
+
+  it("refuses what can not be a site", () => {
+    expect(normalizeSitePattern("")).toBeNull();
+    expect(normalizeSitePattern("*")).toBeNull();
+    expect(normalizeSitePattern("ex*ample.com")).toBeNull();
+    expect(normalizeSitePattern("my site.com")).toBeNull();
+  });
+});
+
+describe("matchesSitePattern", () => {
+  it("covers the subdomains of a plain host", () => {
+    expect(matchesSitePattern("reddit.com", "reddit.com")).toBe(true);
+    expect(matchesSitePattern("old.reddit.com", "reddit.com")).toBe(true);
+    expect(matchesSitePattern("notreddit.com", "reddit.com")).toBe(false);
+  });
+
+  it("ignores www. on the host", () => {
+    expect(matchesSitePattern("www.YouTube.com", "youtube.com")).toBe(true);
+  });
+
+  it("needs at least one label in place of *", () => {
+    expect(matchesSitePattern("mail.example.com", "*.example.com")).toBe(true);
+    expect(matchesSitePattern("a.b.example.com", "*.example.com")).toBe(true);
+    expect(matchesSitePattern("example.com", "*.example.com")).toBe(false);
+  });
+
+  it("matches any ending after a trailing *", () => {
+    expect(matchesSitePattern("news.example.com", "news.*")).toBe(true);
+    expect(matchesSitePattern("news.co.uk", "news.*")).toBe(true);
+    expect(matchesSitePattern("sports.example.com", "news.*")).toBe(false);
+  });
+});
+
+describe("isSiteBlocked", () => {
+  it("blocks the listed sites only while enabled", () => {
+    expect(isSiteBlocked("www.reddit.com", blocking())).toBe(true);
+    expect(isSiteBlocked("docs.example.com", blocking())).toBe(false);
+    expect(isSiteBlocked("www.reddit.com", blocking({ enabled: false }))).toBe(false);
+  });
+
+  it("blocks everything else in allowlist mode", () => {
+    const allowlist = blocking({ mode: "allowlist", allowlist: ["*.example.com"] });
+
+    expect(isSiteBlocked("docs.example.com", allowlist)).toBe(false);
+    expect(isSiteBlocked("example.com", allowlist)).toBe(true);
+    expect(isSiteBlocked("reddit.com", allowlist)).toBe(true);
+  });
+
+  it("blocks every site with an empty allowlist", () => {
+    expect(isSiteBlocked("example.com", blocking({ mode: "allowlist", allowlist: [] }))).toBe(true);
+  });
+});
@@ -0,0 +1,116 @@
+// Distraction blocking. The content script runs on every site, so while focus
+// is running it covers the sites the blocking settings pick out. A site can be
+// unlocked for a while by typing a reason, which is logged with the session.
+
+import { BlockingSettings, TimerState } from "@/types";
+import { StorageChange } from "@/types/chrome";
+import { getFromLocalStorage, isExtensionContext, saveToLocalStorage } from "./chromeUtils";
+
+export const SITE_UNLOCKS_KEY = "focusflow_site_unlocks";
+
+export const defaultBlockingSettings: BlockingSettings = {
+  enabled: false,
+  mode: "blocklist",
+  blocklist: ["facebook.com", "instagram.com", "reddit.com", "twitter.com", "x.com", "youtube.com"],
+  allowlist: [],
+  unlockMinutes: 5,
+};
+
+// Choices for how long an unlock lasts, in minutes
+export const UNLOCK_MINUTES = [1, 5, 10, 15];
+
+// An unlock needs an actual reason, not a keystroke
+export const MIN_UNLOCK_REASON_LENGTH = 10;
+
+// Most entries either list keeps
+export const MAX_SITE_PATTERNS = 200;
+
+const SITE_PATTERN = /^(\*\.)?([a-z0-9-]+\.)*([a-z0-9-]+|\*)$/;
+
+/**
+ * Turns what the user typed, possibly a full URL, into a site pattern, or
+ * null if it can not be one
+ */
+export const normalizeSitePattern = (input: string): string | null => {
+  const host = input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, "")
+    .replace(/[/?#:].*$/, "")
+    .replace(/^www\./, "");
+
+  return SITE_PATTERN.test(host) && /[a-z0-9]/.test(host) ? host : null;
+};
+
+/**
+ * Whether a host matches a pattern. A plain host covers its subdomains; "*"
+ * stands for one or more labels.
+ */
+export const matchesSitePattern = (hostname: string, pattern: string): boolean => {
+  const host = hostname.toLowerCase().replace(/^www\./, "");
+
+  if (!pattern.includes("*")) {
+    return host === pattern || host.endsWith(`.${pattern}`);
+  }
+
+  const source = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join("[a-z0-9.-]+");
+  return new RegExp(`^${source}$`).test(host);
+};
+
+/**
+ * Whether the blocking settings cover a host. An empty allowlist covers
+ * every site.
+ */
+export const isSiteBlocked = (hostname: string, blocking: BlockingSettings): boolean => {
+  if (!blocking.enabled || !hostname) return false;
+
+  if (blocking.mode === "allowlist") {
+    return !blocking.allowlist.some((pattern) => matchesSitePattern(hostname, pattern));
+  }
+  return blocking.blocklist.some((pattern) => matchesSitePattern(hostname, pattern));
+};
+
+/**
+ * Whether blocking applies to the timer right now: only while focus runs,
+ * overtime included
+ */
+export const isBlockingActive = (state: TimerState): boolean => {
+  return state.mode === "focus" && state.isRunning;
+};
+
+/**
+ * Hosts unlocked for now, with the time each unlock ends
+ */
+export const getSiteUnlocks = async (): Promise<Record<string, number>> => {
+  if (!isExtensionContext()) return {};
+  return (await getFromLocalStorage<Record<string, number>>(SITE_UNLOCKS_KEY)) || {};
+};
+
+/**
+ * Opens a host for a while, in every tab. Expired unlocks are dropped on the way.
+ */
+export const unlockSite = async (hostname: string, minutes: number, now: number = Date.now()): Promise<void> => {
+  const unlocks = Object.fromEntries(
+    Object.entries(await getSiteUnlocks()).filter(([, until]) => until > now)
+  );
+  await saveToLocalStorage(SITE_UNLOCKS_KEY, { ...unlocks, [hostname]: now + minutes * 60 * 1000 });
+};
+
+/**
+ * Calls back with the unlocks whenever one is added in any tab
+ */
+export const listenForSiteUnlocks = (callback: (unlocks: Record<string, number>) => void): (() => void) => {
+  if (!isExtensionContext()) return () => {};
+
+  const listener = (changes: { [key: string]: StorageChange }, areaName: string) => {
+    if (areaName === "local" && SITE_UNLOCKS_KEY in changes) {
+      callback((changes[SITE_UNLOCKS_KEY].newValue as Record<string, number> | undefined) || {});
+    }
+  };
+
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+};
@@ -0,0 +1,38 @@
+// Conversations with the chat assistant, stored alongside the rest of the
+// FocusFlow data
+
+import { isExtensionContext, getFromLocalStorage, saveToLocalStorage } from "./chromeUtils";
+
+export const CHAT_CONVERSATIONS_KEY = "focusflow_chat_conversations";
+
+// Conversations as the chat stores them, with dates serialized
+export interface StoredConversation {
+  id: string;
+  title: string;
+  messages: unknown[];
+  createdAt: string | number;
+}
+
+/**
+ * Returns every stored conversation
+ */
+export const getChatConversations = async (): Promise<StoredConversation[]> => {
+  if (isExtensionContext()) {
+    return (await getFromLocalStorage<StoredConversation[]>(CHAT_CONVERSATIONS_KEY)) || [];
+  }
+
+  const stored = localStorage.getItem(CHAT_CONVERSATIONS_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+/**
+ * Replaces the stored conversations
+ */
+export const saveChatConversations = async (conversations: StoredConversation[]): Promise<void> => {
+  if (isExtensionContext()) {
+    await saveToLocalStorage(CHAT_CONVERSATIONS_KEY, conversations);
+    return;
+  }
+
+  localStorage.setItem(CHAT_CONVERSATIONS_KEY, JSON.stringify(conversations));
+};
@@ -1,6 +1,7 @@
 // Utility functions for Chrome extension functionality
 
 import { MessageSender } from "../types/chrome";
+import { TimerCommand, TimerState } from "@/types";
 
 // Performance optimization: Cache the extension context result
 let isExtensionContextCache: boolean | null = null;
@@ -191,12 +192,64 @@ export const listenForStateChanges = (callback: (key: string, value: any) => voi
   };
 };
 
+/**
+ * Sends a timer command to the background worker and resolves with the resulting state
+ */
+export const sendTimerCommand = (
+  command: TimerCommand,
+  payload?: Record<string, unknown>
+): Promise<TimerState | null> => {
+  if (!isExtensionContext()) return Promise.resolve(null);
+  
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage({ action: 'timerCommand', command, payload }, (response) => {
+      if (chrome.runtime.lastError) {
+        reject(chrome.runtime.lastError);
+      } else if (!response?.success) {
+        reject(new Error(response?.error || `Timer command "${command}" failed`));
+      } else {
+        resolve(response.state);
+      }
+    });
+  });
+};
+
+/**
+ * Listens for timer states pushed by the background worker
+ */
+export const listenForTimerState = (callback: (state: TimerState) => void): (() => void) => {
+  if (!isExtensionContext()) return () => {};
+  
+  const listener = (message: { action?: string; value?: TimerState }) => {
+    if (message.action === 'timerState' && message.value) {
+      callback(message.value);
+    }
+  };
+  
+  chrome.runtime.onMessage.addListener(listener);
+  return () => chrome.runtime.onMessage.removeListener(listener);
+};
+
 // Audio playback throttling
 const audioPlayTimes = new Map<string, number>();
 const AUDIO_THROTTLE_MS = 3000; // Don't play the same sound more than once every 3 seconds
 
+// Releases a playback flag once its clip is over; uploads can run longer than
+// the bundled sounds
+const releaseWhenEnded = (audioElement: HTMLAudioElement, release: () => void) => {
+  const done = () => {
+    audioElement.removeEventListener('ended', done);
+    audioElement.removeEventListener('error', done);
+    release();
+  };
+  audioElement.addEventListener('ended', done);
+  audioElement.addEventListener('error', done);
+};
+
 /**
- * Plays audio exactly once across all tabs with performance optimizations
+ * Plays audio exactly once across all tabs with performance optimizations.
+ * The id names the moment, not the file, so a custom sound picked for it is
+ * deduplicated just like the bundled one.
  */
 export const playSingleAudio = async (audioElement: HTMLAudioElement | null, audioId: string): Promise<void> => {
   if (!audioElement) return;
@@ -211,6 +264,7 @@ export const playSingleAudio = async (audioElement: HTMLAudioElement | null, aud
   }
   
   if (!isExtensionContext()) {
+    audioElement.currentTime = 0;
     audioElement.play().catch(err => console.error("Error playing audio:", err));
     audioPlayTimes.set(audioId, now);
     return;
@@ -219,6 +273,12 @@ export const playSingleAudio = async (audioElement: HTMLAudioElement | null, aud
   const audioFlagKey = `audio_playing_${audioId}`;
   
   try {
+    // Another tab is already playing this moment
+    const playing = await getFromLocalStorage<{playing: boolean, timestamp: number, tabId: string}>(audioFlagKey);
+    if (playing?.playing && playing.tabId !== globalThis.tabId && now - playing.timestamp < AUDIO_THROTTLE_MS) {
+      return;
+    }
+    
     // Try to set a flag indicating this audio is playing
     await saveToLocalStorage(audioFlagKey, {
       playing: true,
@@ -231,13 +291,12 @@ export const playSingleAudio = async (audioElement: HTMLAudioElement | null, aud
     
     if (currentState && currentState.tabId === globalThis.tabId) {
       // We're allowed to play the audio
+      audioElement.currentTime = 0;
+      releaseWhenEnded(audioElement, () => {
+        saveToLocalStorage(audioFlagKey, null);
+      });
       await audioElement.play();
       audioPlayTimes.set(audioId, now);
-      
-      // Set a timeout to remove the flag after audio completes
-      setTimeout(async () => {
-        await saveToLocalStorage(audioFlagKey, null);
-      }, 1000); // Reduced timeout for faster cleanup
     }
   } catch (error) {
     console.error("Error managing audio playback:", error);
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { SessionRecord, Task } from "@/types";
+import { sessionRecord } from "@/test/fixtures";
+import { UNTAGGED, filterSessionRecords, getRecordTags, sessionsToCsv, sessionsToIcs } from "./exportUtils";
+
+// A day of January 2026, in local time like the date filter
+const day = (date: number, hour: number = 10) => new Date(2026, 0, date, hour).getTime();
+
+const tasks: Task[] = [
+  { id: "report", title: "Write the report, part 1", tag: "work", estimatedPomodoros: 2, done: false, createdAt: day(1) },
+  { id: "sum", title: "=SUM(A1)", tag: "", estimatedPomodoros: 1, done: false, createdAt: day(1) },
+];
+
+// Splits CSV text into rows of fields, honouring quotes
+const parseCsv = (csv: string): string[][] => {
+  return csv.trimEnd().split("\r\n").map((line) => {
+    const fields: string[] = [];
+    let field = "";
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quoted && char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = !quoted;
+      } else if (char === "," && !quoted) {
+        fields.push(field);
+        field = "";
+      } else {
+        field += char;
+      }
+    }
+    fields.push(field);
+    return fields;
+  });
+};
+
+describe("filterSessionRecords", () => {
+  const records = [
+    sessionRecord({ id: "a", startedAt: day(4, 23), taskId: "report" }),
+    sessionRecord({ id: "b", startedAt: day(5, 0) }),
+    sessionRecord({ id: "c", startedAt: day(6, 23), taskId: "report" }),
+    sessionRecord({ id: "d", startedAt: day(7, 0) }),
+  ];
+
+  it("keeps whole days at both ends of the range", () => {
+    const filtered = filterSessionRecords(records, tasks, { from: new Date(day(5, 12)), to: new Date(day(6, 12)), tag: null });
+    expect(filtered.map(({ id }) => id)).toEqual(["b", "c"]);
+  });
+
+  it("filters by the tag of the task", () => {
+    expect(filterSessionRecords(records, tasks, { from: null, to: null, tag: "work" }).map(({ id }) => id)).toEqual(["a", "c"]);
+    expect(filterSessionRecords(records, tasks, { from: null, to: null, tag: UNTAGGED }).map(({ id }) => id)).toEqual(["b", "d"]);
+  });
+
+  it("lists every tag once", () => {
+    expect(getRecordTags(records, tasks)).toEqual([UNTAGGED, "work"]);
+  });
+});
+
+describe("sessionsToCsv", () => {
+  it("quotes separators and defuses formulas", () => {
+    const [header, report, sum] = parseCsv(sessionsToCsv([
+      sessionRecord({ id: "session-1", taskId: "report" }),
+      sessionRecord({ id: "session-2", taskId: "sum" }),
+    ], tasks));
+
+    expect(report[header.indexOf("task")]).toBe("Write the report, part 1");
+    expect(report[header.indexOf("tag")]).toBe("work");
+    expect(sum[header.indexOf("task")]).toBe("'=SUM(A1)");
+  });
+
+  it("defuses formulas behind a leading tab or carriage return", () => {
+    const hidden: Task[] = [
+      { ...tasks[1], id: "tab", title: "\t=SUM(A1)" },
+      { ...tasks[1], id: "return", title: "\r=SUM(A1)" },
+    ];
+    const [header, tab, carriageReturn] = parseCsv(sessionsToCsv([
+      sessionRecord({ id: "session-1", taskId: "tab" }),
+      sessionRecord({ id: "session-2", taskId: "return" }),
+    ], hidden));
+
+    expect(tab[header.indexOf("task")]).toBe("'\t=SUM(A1)");
+    expect(carriageReturn[header.indexOf("task")]).toBe("'\r=SUM(A1)");
+  });
+
+  it("counts a pause still open as lasting until the end", () => {
+    const [header, row] = parseCsv(sessionsToCsv([
+      sessionRecord({
+        pauses: [
+          { startedAt: day(5) + 60 * 1000, endedAt: day(5) + 3 * 60 * 1000, reason: "meeting" },
+          { startedAt: day(5) + 24 * 60 * 1000, endedAt: null, reason: null },
+        ],
+      }),
+    ], tasks));
+
+    expect(row[header.indexOf("paused_minutes")]).toBe("3");
+    expect(row[header.indexOf("interruptions")].split("; ")).toHaveLength(2);
+  });
+
+  it("lists unlocks apart from interruptions", () => {
+    const [header, row] = parseCsv(sessionsToCsv([
+      sessionRecord({ unlocks: [{ at: day(5), site: "news.example.com", reason: "train times" }] }),
+    ], tasks));
+
+    expect(row[header.indexOf("interruptions")]).toBe("");
+    expect(row[header.indexOf("unlocks")]).toBe("Unlocked news.example.com: train times");
+  });
+
+  it("reads records made before overtime and idle time were kept", () => {
+    const legacy = { ...sessionRecord(), overtimeDuration: undefined, idleDuration: undefined, unlocks: undefined } as unknown as SessionRecord;
+    const [header, row] = parseCsv(sessionsToCsv([legacy], tasks));
+
+    expect(row[header.indexOf("overtime_minutes")]).toBe("0");
+    expect(row[header.indexOf("idle_minutes")]).toBe("0");
+    expect(row[header.indexOf("unlocks")]).toBe("");
+  });
+});
+
+describe("sessionsToIcs", () => {
+  it("has one event per focus block", () => {
+    const ics = sessionsToIcs([sessionRecord({ id: "session-1", taskId: "report" }), sessionRecord({ id: "break", mode: "break" })], tasks);
+
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1);
+    expect(ics).toContain("UID:session-1@focusflow");
+    expect(ics).toContain("SUMMARY:Focus: Write the report\\, part 1");
+    expect(ics).toContain("CATEGORIES:work");
+  });
+
+  it("folds long lines without splitting characters", () => {
+    const title = "Plan the launch 🚀 ".repeat(10);
+    const ics = sessionsToIcs([sessionRecord({ taskId: "launch" })], [{ ...tasks[0], id: "launch", title }]);
+    const encoder = new TextEncoder();
+    const lines = ics.trimEnd().split("\r\n");
+
+    lines.forEach((line) => expect(encoder.encode(line).length).toBeLessThanOrEqual(75));
+    expect(ics.replace(/\r\n /g, "")).toContain(`SUMMARY:Focus: ${title}`);
+  });
+});
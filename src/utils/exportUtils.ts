@@ -0,0 +1,215 @@
+// Session history exports, built entirely in the browser from local data
+
+import { endOfDay, startOfDay } from "date-fns";
+import { SessionRecord, Task } from "@/types";
+import { getInterruptionLabel, getUnlockLabel } from "./interruptionUtils";
+
+export type ExportFormat = "csv" | "json" | "ics";
+
+// Matches the grouping used in the stats dashboard
+export const UNTAGGED = "Untagged";
+
+export interface ExportFilter {
+  from: Date | null;
+  to: Date | null; // inclusive
+  tag: string | null; // null exports every tag
+}
+
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  json: "application/json",
+  ics: "text/calendar",
+};
+
+const toMinutes = (seconds: number): number => Math.round((seconds / 60) * 10) / 10;
+
+const getPausedSeconds = (record: SessionRecord): number => {
+  return Math.round(record.pauses.reduce((total, pause) => total + ((pause.endedAt ?? record.endedAt) - pause.startedAt), 0) / 1000);
+};
+
+const findTask = (record: SessionRecord, tasks: Task[]): Task | undefined => {
+  return record.taskId ? tasks.find((task) => task.id === record.taskId) : undefined;
+};
+
+/**
+ * Project tag a session counts towards, through its task
+ */
+export const getRecordTag = (record: SessionRecord, tasks: Task[]): string => {
+  return findTask(record, tasks)?.tag || UNTAGGED;
+};
+
+/**
+ * Every tag that appears in the history, for the export filter
+ */
+export const getRecordTags = (records: SessionRecord[], tasks: Task[]): string[] => {
+  return Array.from(new Set(records.map((record) => getRecordTag(record, tasks)))).sort();
+};
+
+/**
+ * Sessions that started within the date range and belong to the tag
+ */
+export const filterSessionRecords = (records: SessionRecord[], tasks: Task[], filter: ExportFilter): SessionRecord[] => {
+  const from = filter.from ? startOfDay(filter.from).getTime() : -Infinity;
+  const to = filter.to ? endOfDay(filter.to).getTime() : Infinity;
+
+  return records.filter((record) =>
+    record.startedAt >= from &&
+    record.startedAt <= to &&
+    (filter.tag === null || getRecordTag(record, tasks) === filter.tag)
+  );
+};
+
+// Quote a CSV field when it contains a separator, quote or line break. Text
+// that a spreadsheet would read as a formula, which it may still find behind a
+// leading tab or carriage return, is prefixed with an apostrophe.
+const escapeCsv = (value: string | number): string => {
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per session, with durations in minutes
+ */
+export const sessionsToCsv = (records: SessionRecord[], tasks: Task[]): string => {
+  const header = [
+    "id", "mode", "started_at", "ended_at", "planned_minutes", "actual_minutes", "overtime_minutes",
+    "idle_minutes", "paused_minutes", "interruptions", "unlocks", "outcome", "break_activity", "task", "tag",
+  ];
+
+  const rows = records.map((record) => [
+    record.id,
+    record.mode,
+    new Date(record.startedAt).toISOString(),
+    new Date(record.endedAt).toISOString(),
+    toMinutes(record.plannedDuration),
+    toMinutes(record.actualDuration),
+    toMinutes(record.overtimeDuration ?? 0),
+    toMinutes(record.idleDuration ?? 0),
+    toMinutes(getPausedSeconds(record)),
+    record.pauses.map(getInterruptionLabel).join("; "),
+    (record.unlocks ?? []).map(getUnlockLabel).join("; "),
+    record.outcome,
+    record.breakActivity ?? "",
+    findTask(record, tasks)?.title ?? "",
+    getRecordTag(record, tasks),
+  ]);
+
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(",")).join("\r\n") + "\r\n";
+};
+
+/**
+ * The raw records, with the tasks they refer to
+ */
+export const sessionsToJson = (records: SessionRecord[], tasks: Task[]): string => {
+  const taskIds = new Set(records.map((record) => record.taskId));
+
+  return JSON.stringify(
+    {
+      app: "focusflow",
+      kind: "sessions",
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      sessions: records,
+      tasks: tasks.filter((task) => taskIds.has(task.id)),
+    },
+    null,
+    2
+  );
+};
+
+// UTC date-time in the basic iCalendar form, e.g. 20240131T083000Z
+const formatIcsDate = (timestamp: number): string => {
+  return new Date(timestamp).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+};
+
+const escapeIcsText = (text: string): string => {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+};
+
+// Content lines are folded at 75 octets of UTF-8, continuing with a space.
+// Code points are kept whole, so emoji are never split between lines.
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let part = "";
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(part);
+      part = "";
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+
+  return parts.join("\r\n ");
+};
+
+/**
+ * A calendar with one event per focus block
+ */
+export const sessionsToIcs = (records: SessionRecord[], tasks: Task[]): string => {
+  const stamp = formatIcsDate(Date.now());
+
+  const events = records
+    .filter((record) => record.mode === "focus")
+    .flatMap((record) => {
+      const task = findTask(record, tasks);
+      const tag = getRecordTag(record, tasks);
+      const details = [
+        `Focused ${toMinutes(record.actualDuration)} of ${toMinutes(record.plannedDuration)} planned minutes`,
+        `Outcome: ${record.outcome}`,
+        ...(record.pauses.length > 0 ? [`Interruptions: ${record.pauses.map(getInterruptionLabel).join(", ")}`] : []),
+        ...(record.unlocks?.length ? [`Unlocks: ${record.unlocks.map(getUnlockLabel).join(", ")}`] : []),
+      ];
+
+      return [
+        "BEGIN:VEVENT",
+        `UID:${record.id}@focusflow`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${formatIcsDate(record.startedAt)}`,
+        `DTEND:${formatIcsDate(record.endedAt)}`,
+        `SUMMARY:${escapeIcsText(task ? `Focus: ${task.title}` : "Focus session")}`,
+        `DESCRIPTION:${escapeIcsText(details.join("\n"))}`,
+        ...(tag !== UNTAGGED ? [`CATEGORIES:${escapeIcsText(tag)}`] : []),
+        "END:VEVENT",
+      ];
+    });
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//FocusFlow//Session history//EN",
+    "CALSCALE:GREGORIAN",
+    ...events,
+    "END:VCALENDAR",
+  ];
+
+  return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+};
+
+/**
+ * File name, content and MIME type for an export in the given format
+ */
+export const buildSessionExport = (
+  format: ExportFormat,
+  records: SessionRecord[],
+  tasks: Task[]
+): { filename: string; content: string; mimeType: string } => {
+  const content = format === "csv"
+    ? sessionsToCsv(records, tasks)
+    : format === "json"
+      ? sessionsToJson(records, tasks)
+      : sessionsToIcs(records, tasks);
+
+  return {
+    filename: `focusflow-sessions.${format}`,
+    content,
+    mimeType: EXPORT_MIME_TYPES[format],
+  };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { TimerSettings } from "@/types";
+import { sessionRecord } from "@/test/fixtures";
+import { defaultTimerSettings } from "./timerUtils";
+import { getCurrentStreak, getDailyFocusTotals, getDailyGoalProgress, recordGoalMet } from "./goalUtils";
+
+// Local time on a day of January 2026
+const at = (date: number, hours: number = 10) => new Date(2026, 0, date, hours);
+
+const minutesGoal: TimerSettings = { ...defaultTimerSettings, dailyGoalType: "minutes", dailyGoalTarget: 60 };
+
+describe("getDailyFocusTotals", () => {
+  it("adds up today's focus, with overtime, and its completed sessions", () => {
+    const totals = getDailyFocusTotals([
+      sessionRecord({ startedAt: at(4).getTime() }),
+      sessionRecord({ startedAt: at(5, 9).getTime(), overtimeDuration: 5 * 60 }),
+      sessionRecord({ startedAt: at(5, 11).getTime(), actualDuration: 10 * 60, outcome: "skipped" }),
+      sessionRecord({ startedAt: at(5, 12).getTime(), mode: "break", actualDuration: 5 * 60 }),
+    ], at(5, 18));
+
+    expect(totals).toEqual({ date: "2026-01-05", focusSeconds: 40 * 60, completedSessions: 1 });
+  });
+});
+
+describe("getDailyGoalProgress", () => {
+  const totals = { date: "2026-01-05", focusSeconds: 45 * 60 + 59, completedSessions: 2 };
+
+  it("counts whole minutes towards a minutes goal", () => {
+    expect(getDailyGoalProgress(totals, minutesGoal, at(5))).toEqual({ value: 45, target: 60, ratio: 0.75, met: false });
+  });
+
+  it("counts completed sessions towards a sessions goal", () => {
+    const progress = getDailyGoalProgress(totals, { ...minutesGoal, dailyGoalType: "sessions", dailyGoalTarget: 2 }, at(5));
+    expect(progress).toEqual({ value: 2, target: 2, ratio: 1, met: true });
+  });
+
+  it("starts from nothing on a new day", () => {
+    expect(getDailyGoalProgress(totals, minutesGoal, at(6))?.value).toBe(0);
+    expect(getDailyGoalProgress(null, minutesGoal, at(6))?.value).toBe(0);
+  });
+
+  it("is null without a goal", () => {
+    expect(getDailyGoalProgress(totals, { ...minutesGoal, dailyGoalTarget: 0 }, at(5))).toBeNull();
+  });
+});
+
+describe("goal streaks", () => {
+  it("grows on consecutive days and counts each day once", () => {
+    const first = recordGoalMet({ count: 0, lastMetDate: null }, at(5));
+    const again = recordGoalMet(first, at(5, 20));
+    const next = recordGoalMet(again, at(6));
+
+    expect(first).toEqual({ count: 1, lastMetDate: "2026-01-05" });
+    expect(again).toBe(first);
+    expect(next).toEqual({ count: 2, lastMetDate: "2026-01-06" });
+  });
+
+  it("starts over after a missed day", () => {
+    expect(recordGoalMet({ count: 4, lastMetDate: "2026-01-03" }, at(5))).toEqual({ count: 1, lastMetDate: "2026-01-05" });
+  });
+
+  it("keeps the streak until a whole day was missed", () => {
+    const streak = { count: 3, lastMetDate: "2026-01-05" };
+
+    expect(getCurrentStreak(streak, at(5))).toBe(3);
+    expect(getCurrentStreak(streak, at(6, 23))).toBe(3);
+    expect(getCurrentStreak(streak, at(7))).toBe(0);
+  });
+});
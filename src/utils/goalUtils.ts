@@ -0,0 +1,83 @@
+// Daily focus goal progress and the streak of days it was met
+
+import { format, subDays } from "date-fns";
+import { GoalStreak, SessionRecord, TimerSettings } from "@/types";
+
+// Today's focus, kept next to the history so the goal does not need all of it
+export interface DailyFocusTotals {
+  date: string; // yyyy-MM-dd
+  focusSeconds: number; // including overtime
+  completedSessions: number;
+}
+
+export interface DailyGoalProgress {
+  value: number; // minutes or sessions so far today
+  target: number;
+  ratio: number; // 0..1
+  met: boolean;
+}
+
+const dayKey = (timestamp: number | Date): string => format(timestamp, "yyyy-MM-dd");
+
+/**
+ * Adds up the focus phases that started today
+ */
+export const getDailyFocusTotals = (records: SessionRecord[], now: Date = new Date()): DailyFocusTotals => {
+  const today = dayKey(now);
+  const todaysFocus = records.filter((record) => record.mode === "focus" && dayKey(record.startedAt) === today);
+
+  return {
+    date: today,
+    focusSeconds: todaysFocus.reduce((sum, record) => sum + record.actualDuration + (record.overtimeDuration ?? 0), 0),
+    completedSessions: todaysFocus.filter((record) => record.outcome === "completed").length,
+  };
+};
+
+/**
+ * Today's progress towards the daily goal, or null when no goal is set.
+ * Totals from an earlier day count as nothing done yet.
+ */
+export const getDailyGoalProgress = (
+  totals: DailyFocusTotals | null,
+  settings: TimerSettings,
+  now: Date = new Date()
+): DailyGoalProgress | null => {
+  if (settings.dailyGoalTarget <= 0) return null;
+
+  const today = totals?.date === dayKey(now) ? totals : null;
+  const value = settings.dailyGoalType === "sessions"
+    ? today?.completedSessions ?? 0
+    : Math.floor((today?.focusSeconds ?? 0) / 60);
+
+  return {
+    value,
+    target: settings.dailyGoalTarget,
+    ratio: Math.min(1, value / settings.dailyGoalTarget),
+    met: value >= settings.dailyGoalTarget,
+  };
+};
+
+/**
+ * Whether the goal was already counted towards the streak today
+ */
+export const isGoalMetToday = (streak: GoalStreak, now: Date = new Date()): boolean => {
+  return streak.lastMetDate === dayKey(now);
+};
+
+/**
+ * Extends the streak for today, or starts a new one after a missed day
+ */
+export const recordGoalMet = (streak: GoalStreak, now: Date = new Date()): GoalStreak => {
+  if (isGoalMetToday(streak, now)) return streak;
+
+  const continues = streak.lastMetDate === dayKey(subDays(now, 1));
+  return { count: continues ? streak.count + 1 : 1, lastMetDate: dayKey(now) };
+};
+
+/**
+ * The streak as it stands today; it only breaks once a whole day was missed
+ */
+export const getCurrentStreak = (streak: GoalStreak, now: Date = new Date()): number => {
+  const stillRunning = streak.lastMetDate === dayKey(now) || streak.lastMetDate === dayKey(subDays(now, 1));
+  return stillRunning ? streak.count : 0;
+};
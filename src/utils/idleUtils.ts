@@ -0,0 +1,43 @@
+// Idle detection during focus. In the extension the worker listens to
+// chrome.idle; the standalone app watches input events on the page instead.
+// Either way the result goes to the timer machine as IDLE_START and IDLE_END.
+
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"] as const;
+
+// How often the page checks whether the threshold has passed
+const IDLE_CHECK_INTERVAL_MS = 5 * 1000;
+
+/**
+ * Calls back when the page has had no input for the threshold, with the time
+ * of the last input, and again on the first input after that
+ */
+export const listenForPageIdle = (
+  thresholdMs: number,
+  onIdle: (since: number) => void,
+  onActive: () => void
+): (() => void) => {
+  let lastActivity = Date.now();
+  let isIdle = false;
+
+  const handleActivity = () => {
+    lastActivity = Date.now();
+    if (isIdle) {
+      isIdle = false;
+      onActive();
+    }
+  };
+
+  const intervalId = setInterval(() => {
+    if (!isIdle && Date.now() - lastActivity >= thresholdMs) {
+      isIdle = true;
+      onIdle(lastActivity);
+    }
+  }, IDLE_CHECK_INTERVAL_MS);
+
+  ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+
+  return () => {
+    clearInterval(intervalId);
+    ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, handleActivity));
+  };
+};
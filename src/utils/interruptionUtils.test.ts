@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { InterruptionReason, TimerPause } from "@/types";
+import { sessionRecord } from "@/test/fixtures";
+import { getWeeklyInterruptionBreakdown } from "./interruptionUtils";
+
+// Local time on a day of January 2026; the 5th is a Monday
+const at = (date: number, hours: number = 10) => new Date(2026, 0, date, hours);
+
+// A pause of the given length in minutes, starting at a time
+const pause = (startedAt: Date, minutes: number, reason: InterruptionReason | null = null): TimerPause => ({
+  startedAt: startedAt.getTime(),
+  endedAt: startedAt.getTime() + minutes * 60 * 1000,
+  reason,
+});
+
+describe("getWeeklyInterruptionBreakdown", () => {
+  const records = [
+    sessionRecord({ startedAt: at(4).getTime(), pauses: [pause(at(4), 30, "meeting")] }),
+    sessionRecord({ startedAt: at(5).getTime(), pauses: [pause(at(5), 3, "phone"), pause(at(5, 11), 2, "phone")] }),
+    sessionRecord({ startedAt: at(7).getTime(), pauses: [pause(at(7), 10, "meeting"), pause(at(7, 11), 1)] }),
+    sessionRecord({ startedAt: at(8).getTime(), mode: "break", pauses: [pause(at(8), 4, "colleague")] }),
+  ];
+
+  it("counts the focus pauses since Monday per reason, most frequent first", () => {
+    expect(getWeeklyInterruptionBreakdown(records, at(9))).toEqual([
+      { reason: "phone", label: "Phone", count: 2, minutes: 5 },
+      { reason: "meeting", label: "Meeting", count: 1, minutes: 10 },
+      { reason: "unlabelled", label: "Not recorded", count: 1, minutes: 1 },
+    ]);
+  });
+
+  it("keeps the week that began on Monday until Sunday night", () => {
+    expect(getWeeklyInterruptionBreakdown(records, at(11, 23))).toEqual(getWeeklyInterruptionBreakdown(records, at(5)));
+    expect(getWeeklyInterruptionBreakdown(records, at(12))).toEqual([]);
+  });
+
+  it("counts a pause still open without its length", () => {
+    const open = sessionRecord({ startedAt: at(5).getTime(), pauses: [{ startedAt: at(5).getTime(), endedAt: null, reason: "distraction" }] });
+    expect(getWeeklyInterruptionBreakdown([open], at(5, 12))).toEqual([
+      { reason: "distraction", label: "Self-distraction", count: 1, minutes: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+// Interruptions are the pauses taken during focus sessions
+
+import { startOfWeek } from "date-fns";
+import { InterruptionReason, SessionRecord, SiteUnlock, TimerPause } from "@/types";
+
+export const INTERRUPTION_REASON_LABELS: Record<InterruptionReason, string> = {
+  meeting: "Meeting",
+  colleague: "Colleague",
+  phone: "Phone",
+  distraction: "Self-distraction",
+  custom: "Other",
+};
+
+export const INTERRUPTION_REASONS = Object.keys(INTERRUPTION_REASON_LABELS) as InterruptionReason[];
+
+export interface InterruptionBreakdown {
+  reason: InterruptionReason | "unlabelled";
+  label: string;
+  count: number;
+  minutes: number;
+}
+
+export interface SessionInterruptions {
+  record: SessionRecord;
+  interruptions: TimerPause[];
+  pausedMinutes: number;
+}
+
+const getPauseSeconds = (pause: TimerPause): number => {
+  return pause.endedAt === null ? 0 : Math.max(0, Math.round((pause.endedAt - pause.startedAt) / 1000));
+};
+
+/**
+ * Display name of a pause's reason, using the custom note or unlocked site where there is one
+ */
+export const getInterruptionLabel = (pause: TimerPause): string => {
+  if (!pause.reason) return "Not recorded";
+  if (pause.reason === "custom" && pause.note) return pause.note;
+  // Older records logged unlocks as pauses, with the site and the reason typed
+  if (pause.site) return `Unlocked ${pause.site}${pause.note ? `: ${pause.note}` : ""}`;
+  return INTERRUPTION_REASON_LABELS[pause.reason];
+};
+
+/**
+ * Display name of an unlock of a blocked site, with the reason typed for it
+ */
+export const getUnlockLabel = (unlock: SiteUnlock): string => {
+  return `Unlocked ${unlock.site}${unlock.reason ? `: ${unlock.reason}` : ""}`;
+};
+
+/**
+ * Focus sessions that were interrupted, newest first
+ */
+export const getSessionInterruptions = (records: SessionRecord[], limit: number = 10): SessionInterruptions[] => {
+  return records
+    .filter((record) => record.mode === "focus" && record.pauses.length > 0)
+    .slice(-limit)
+    .reverse()
+    .map((record) => ({
+      record,
+      interruptions: record.pauses,
+      pausedMinutes: Math.round(record.pauses.reduce((sum, pause) => sum + getPauseSeconds(pause), 0) / 60),
+    }));
+};
+
+/**
+ * Count and total length of focus interruptions per reason since a given time
+ */
+export const getInterruptionBreakdown = (records: SessionRecord[], since: number = 0): InterruptionBreakdown[] => {
+  const totals = new Map<InterruptionBreakdown["reason"], { count: number; seconds: number }>();
+
+  records
+    .filter((record) => record.mode === "focus")
+    .flatMap((record) => record.pauses)
+    .filter((pause) => pause.startedAt >= since)
+    .forEach((pause) => {
+      const reason = pause.reason || "unlabelled";
+      const total = totals.get(reason) || { count: 0, seconds: 0 };
+      totals.set(reason, { count: total.count + 1, seconds: total.seconds + getPauseSeconds(pause) });
+    });
+
+  return Array.from(totals.entries())
+    .map(([reason, { count, seconds }]) => ({
+      reason,
+      label: reason === "unlabelled" ? "Not recorded" : INTERRUPTION_REASON_LABELS[reason],
+      count,
+      minutes: Math.round(seconds / 60),
+    }))
+    .sort((a, b) => b.count - a.count);
+};
+
+/**
+ * Breakdown for the current week, starting on Monday
+ */
+export const getWeeklyInterruptionBreakdown = (records: SessionRecord[], now: Date = new Date()): InterruptionBreakdown[] => {
+  return getInterruptionBreakdown(records, startOfWeek(now, { weekStartsOn: 1 }).getTime());
+};
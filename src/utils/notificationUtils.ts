@@ -0,0 +1,112 @@
+// Notifications for phase changes and milestones. In the extension the worker
+// shows them once with chrome.notifications, buttons included. The standalone
+// app puts the buttons on an in-app toast and adds a system notification
+// while its page is hidden.
+
+import { NotificationEvent, NotificationSettings, TimerState } from "@/types";
+import type { TimerAnnouncement } from "./timerMachine";
+
+export const NOTIFICATION_EVENTS: { event: NotificationEvent; label: string }[] = [
+  { event: "focusComplete", label: "A focus session ends" },
+  { event: "breakComplete", label: "A break ends" },
+  { event: "overtime", label: "Focus time is up in flow mode" },
+  { event: "goalMet", label: "The daily goal is reached" },
+  { event: "workHoursOver", label: "Working hours end" },
+];
+
+export const defaultNotificationSettings: NotificationSettings = {
+  focusComplete: true,
+  breakComplete: true,
+  overtime: true,
+  goalMet: true,
+  workHoursOver: true,
+};
+
+// How long "Snooze" puts off the next phase
+export const NOTIFICATION_SNOOZE_MINUTES = 5;
+
+export type NotificationActionId = "start" | "snooze" | "skip";
+
+export interface NotificationAction {
+  id: NotificationActionId;
+  label: string;
+}
+
+export interface TimerNotification {
+  event: NotificationEvent;
+  message: string;
+  actions: NotificationAction[]; // at most two, the most Chrome shows
+}
+
+// Buttons that fit the phase that was just reached. Snoozing is left out once
+// the phase has used up its extensions.
+const getPhaseActions = (next: TimerState, snoozesLeft: number): NotificationAction[] => {
+  const snooze: NotificationAction[] = snoozesLeft > 0
+    ? [{ id: "snooze", label: `Snooze ${NOTIFICATION_SNOOZE_MINUTES} min` }]
+    : [];
+
+  if (next.mode === "focus") {
+    return next.isRunning ? [] : [{ id: "start", label: "Start focus" }, ...snooze];
+  }
+
+  const skip: NotificationAction = { id: "skip", label: "Skip break" };
+  if (next.isRunning) return [skip];
+  // A break that starts by itself only needs putting off
+  return next.autoStartAt !== null ? [...snooze, skip] : [{ id: "start", label: "Start break" }, skip];
+};
+
+/**
+ * What to tell the user after the timer announced a transition
+ */
+export const getPhaseNotification = (
+  prev: TimerState,
+  next: TimerState,
+  announcement: TimerAnnouncement,
+  snoozesLeft: number
+): TimerNotification => {
+  if (announcement === "overtime") {
+    return {
+      event: "overtime",
+      message: "Focus time is up. Keep going and take a break when you are ready.",
+      actions: [],
+    };
+  }
+
+  if (next.mode === "longBreak") {
+    return {
+      event: "focusComplete",
+      message: `Set of ${next.sessionCount} sessions complete! Enjoy a long break.`,
+      actions: getPhaseActions(next, snoozesLeft),
+    };
+  }
+
+  if (prev.mode === "focus") {
+    return { event: "focusComplete", message: "Focus session complete! Time for a break.", actions: getPhaseActions(next, snoozesLeft) };
+  }
+
+  return { event: "breakComplete", message: "Break complete! Ready to focus again?", actions: getPhaseActions(next, snoozesLeft) };
+};
+
+/**
+ * Asks for permission to show system notifications in the standalone app
+ */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!("Notification" in window)) return false;
+  if (Notification.permission !== "default") return Notification.permission === "granted";
+
+  return (await Notification.requestPermission()) === "granted";
+};
+
+/**
+ * Shows a system notification from the standalone app, if allowed. Clicking
+ * it brings the app back.
+ */
+export const showSystemNotification = (message: string, tag?: string): void => {
+  if (!("Notification" in window) || Notification.permission !== "granted") return;
+
+  const notification = new Notification("FocusFlow", { body: message, icon: "/favicon.ico", tag });
+  notification.onclick = () => {
+    window.focus();
+    notification.close();
+  };
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { TimerPreset } from "@/types";
+import { defaultTimerSettings } from "./timerUtils";
+import {
+  BUILT_IN_PRESETS,
+  PRESET_FILE_VERSION,
+  applyPreset,
+  createPreset,
+  exportPresets,
+  findMatchingPreset,
+  mergePresets,
+  parsePresetFile
+} from "./presetUtils";
+
+const preset = (changes: Partial<TimerPreset> = {}): TimerPreset => ({
+  id: "writing",
+  name: "Writing",
+  focusDuration: 45,
+  breakDuration: 10,
+  longBreakDuration: 20,
+  autoStartBreaks: false,
+  autoStartFocus: false,
+  ...changes,
+});
+
+const presetFile = (presets: unknown, version: unknown = PRESET_FILE_VERSION) => JSON.stringify({ version, presets });
+
+describe("parsePresetFile", () => {
+  it("reads back exported presets with fresh ids", () => {
+    const [parsed] = parsePresetFile(exportPresets([{ ...preset(), builtIn: true }]));
+
+    expect(parsed).toEqual({ ...preset(), id: parsed.id });
+    expect(parsed.id).not.toBe("writing");
+    expect(parsed).not.toHaveProperty("builtIn");
+  });
+
+  it("trims names", () => {
+    expect(parsePresetFile(presetFile([preset({ name: "  Writing  " })]))[0].name).toBe("Writing");
+  });
+
+  it("refuses files that are not presets", () => {
+    expect(() => parsePresetFile("presets")).toThrow("not valid JSON");
+    expect(() => parsePresetFile(JSON.stringify({ version: 1 }))).toThrow("does not contain any presets");
+    expect(() => parsePresetFile(JSON.stringify({ presets: [preset()] }))).toThrow("not a FocusFlow preset file");
+    expect(() => parsePresetFile(presetFile([preset()], "1"))).toThrow("not a FocusFlow preset file");
+    expect(() => parsePresetFile(presetFile([], PRESET_FILE_VERSION + 1))).toThrow("newer version");
+  });
+
+  it("names the first preset with a bad entry", () => {
+    expect(() => parsePresetFile(presetFile([preset(), preset({ name: " " })]))).toThrow("Preset 2");
+    expect(() => parsePresetFile(presetFile([preset({ focusDuration: 121 })]))).toThrow("Preset 1");
+    expect(() => parsePresetFile(presetFile([preset({ breakDuration: 2.5 })]))).toThrow("Preset 1");
+    expect(() => parsePresetFile(presetFile([null]))).toThrow("Preset 1");
+  });
+});
+
+describe("mergePresets", () => {
+  it("replaces presets with the same name, whatever its case", () => {
+    const merged = mergePresets(
+      [preset({ id: "old" }), preset({ id: "reading", name: "Reading" })],
+      [preset({ id: "new", name: "WRITING" })]
+    );
+
+    expect(merged.map(({ id }) => id)).toEqual(["reading", "new"]);
+  });
+});
+
+describe("matching", () => {
+  it("finds the preset the settings were switched to", () => {
+    const classic = BUILT_IN_PRESETS[0];
+    const custom = createPreset(" Writing ", { ...defaultTimerSettings, ...preset() });
+    const settings = { ...defaultTimerSettings, presets: [custom] };
+
+    expect(custom.name).toBe("Writing");
+    expect(findMatchingPreset(applyPreset(settings, custom))?.id).toBe(custom.id);
+    expect(findMatchingPreset(applyPreset(settings, classic))?.id).toBe(classic.id);
+    expect(findMatchingPreset({ ...settings, focusDuration: 33 })).toBeNull();
+  });
+});
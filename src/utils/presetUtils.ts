@@ -0,0 +1,167 @@
+// Named timer presets: built-in defaults, matching, export and import
+
+import { TimerPreset, TimerSettings } from "@/types";
+import { v4 as uuidv4 } from 'uuid';
+import { MAX_BREAK_MINUTES, MAX_FOCUS_MINUTES, MAX_LONG_BREAK_MINUTES } from "./settingsSchema";
+
+export const PRESET_FILE_VERSION = 1;
+
+export const BUILT_IN_PRESETS: TimerPreset[] = [
+  {
+    id: "classic",
+    name: "Classic 25/5",
+    focusDuration: 25,
+    breakDuration: 5,
+    longBreakDuration: 15,
+    autoStartBreaks: true,
+    autoStartFocus: false,
+    builtIn: true,
+  },
+  {
+    id: "52-17",
+    name: "52/17",
+    focusDuration: 52,
+    breakDuration: 17,
+    longBreakDuration: 30,
+    autoStartBreaks: true,
+    autoStartFocus: false,
+    builtIn: true,
+  },
+  {
+    id: "deep-work",
+    name: "Deep work 90/20",
+    focusDuration: 90,
+    breakDuration: 20,
+    longBreakDuration: 30,
+    autoStartBreaks: true,
+    autoStartFocus: false,
+    builtIn: true,
+  },
+];
+
+const PRESET_FIELDS = [
+  "focusDuration",
+  "breakDuration",
+  "longBreakDuration",
+  "autoStartBreaks",
+  "autoStartFocus",
+] as const;
+
+/**
+ * Built-in presets followed by the user's own
+ */
+export const getAllPresets = (settings: TimerSettings): TimerPreset[] => {
+  return [...BUILT_IN_PRESETS, ...(settings.presets || [])];
+};
+
+/**
+ * The preset whose values the settings currently match, if any
+ */
+export const findMatchingPreset = (settings: TimerSettings): TimerPreset | null => {
+  return getAllPresets(settings).find((preset) =>
+    PRESET_FIELDS.every((field) => preset[field] === settings[field])
+  ) || null;
+};
+
+/**
+ * Settings with the preset's durations and auto-start flags applied
+ */
+export const applyPreset = (settings: TimerSettings, preset: TimerPreset): TimerSettings => ({
+  ...settings,
+  focusDuration: preset.focusDuration,
+  breakDuration: preset.breakDuration,
+  longBreakDuration: preset.longBreakDuration,
+  autoStartBreaks: preset.autoStartBreaks,
+  autoStartFocus: preset.autoStartFocus,
+});
+
+/**
+ * Captures the current settings as a new user-defined preset
+ */
+export const createPreset = (name: string, settings: TimerSettings): TimerPreset => ({
+  id: uuidv4(),
+  name: name.trim(),
+  focusDuration: settings.focusDuration,
+  breakDuration: settings.breakDuration,
+  longBreakDuration: settings.longBreakDuration,
+  autoStartBreaks: settings.autoStartBreaks,
+  autoStartFocus: settings.autoStartFocus,
+});
+
+/**
+ * Adds imported presets, replacing user presets with the same name
+ */
+export const mergePresets = (existing: TimerPreset[], imported: TimerPreset[]): TimerPreset[] => {
+  const importedNames = new Set(imported.map((preset) => preset.name.toLowerCase()));
+  return [
+    ...existing.filter((preset) => !importedNames.has(preset.name.toLowerCase())),
+    ...imported,
+  ];
+};
+
+/**
+ * Serializes the user-defined presets for download
+ */
+export const exportPresets = (presets: TimerPreset[]): string => {
+  return JSON.stringify(
+    {
+      version: PRESET_FILE_VERSION,
+      exportedAt: new Date().toISOString(),
+      presets: presets.map(({ builtIn: _builtIn, ...preset }) => preset),
+    },
+    null,
+    2
+  );
+};
+
+const isDuration = (value: unknown, max: number): value is number => {
+  return typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= max;
+};
+
+/**
+ * Parses and validates an exported presets file. Imported presets get fresh
+ * ids so they never collide with existing ones.
+ */
+export const parsePresetFile = (content: string): TimerPreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const file = data as { version?: unknown; presets?: unknown };
+  if (typeof file !== "object" || file === null || !Array.isArray(file.presets)) {
+    throw new Error("The file does not contain any presets");
+  }
+  if (typeof file.version !== "number") {
+    throw new Error("The file is not a FocusFlow preset file");
+  }
+  if (file.version > PRESET_FILE_VERSION) {
+    throw new Error("The presets file was made by a newer version of FocusFlow");
+  }
+
+  return file.presets.map((entry: Record<string, unknown>, index: number) => {
+    const valid =
+      typeof entry?.name === "string" && entry.name.trim().length > 0 &&
+      isDuration(entry.focusDuration, MAX_FOCUS_MINUTES) &&
+      isDuration(entry.breakDuration, MAX_BREAK_MINUTES) &&
+      isDuration(entry.longBreakDuration, MAX_LONG_BREAK_MINUTES) &&
+      typeof entry.autoStartBreaks === "boolean" &&
+      typeof entry.autoStartFocus === "boolean";
+
+    if (!valid) {
+      throw new Error(`Preset ${index + 1} is missing a name or has invalid durations`);
+    }
+
+    return {
+      id: uuidv4(),
+      name: (entry.name as string).trim(),
+      focusDuration: entry.focusDuration as number,
+      breakDuration: entry.breakDuration as number,
+      longBreakDuration: entry.longBreakDuration as number,
+      autoStartBreaks: entry.autoStartBreaks as boolean,
+      autoStartFocus: entry.autoStartFocus as boolean,
+    };
+  });
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { PhaseProgress, WorkSchedule } from "@/types";
+import { canStartPhase, defaultWorkSchedule, isStartOfWorkDay, isWithinWorkingHours } from "./scheduleUtils";
+
+const schedule: WorkSchedule = { ...defaultWorkSchedule, enabled: true };
+
+// Local time on a day of January 2026; the 5th is a Monday and the 10th a Saturday
+const at = (date: number, hours: number, minutes: number = 0) => new Date(2026, 0, date, hours, minutes);
+
+const phase: PhaseProgress = {
+  startedAt: at(5, 16, 50).getTime(),
+  plannedDuration: 25 * 60,
+  pauses: [],
+  breakActivity: null,
+  taskId: null,
+};
+
+describe("isWithinWorkingHours", () => {
+  it("treats every hour as working hours without a schedule", () => {
+    expect(isWithinWorkingHours(defaultWorkSchedule, at(10, 3))).toBe(true);
+  });
+
+  it("starts at the start of the day and stops at its end", () => {
+    expect(isWithinWorkingHours(schedule, at(5, 8, 59))).toBe(false);
+    expect(isWithinWorkingHours(schedule, at(5, 9))).toBe(true);
+    expect(isWithinWorkingHours(schedule, at(5, 16, 59))).toBe(true);
+    expect(isWithinWorkingHours(schedule, at(5, 17))).toBe(false);
+  });
+
+  it("leaves out lunch and days off", () => {
+    expect(isWithinWorkingHours(schedule, at(5, 12, 30))).toBe(false);
+    expect(isWithinWorkingHours(schedule, at(5, 13))).toBe(true);
+    expect(isWithinWorkingHours(schedule, at(10, 10))).toBe(false);
+    expect(isWithinWorkingHours({ ...schedule, lunch: { ...schedule.lunch, enabled: false } }, at(5, 12, 30))).toBe(true);
+  });
+});
+
+describe("canStartPhase", () => {
+  it("lets a phase under way finish after hours when the schedule allows it", () => {
+    expect(canStartPhase({ currentPhase: null }, schedule, at(5, 17, 5))).toBe(false);
+    expect(canStartPhase({ currentPhase: phase }, schedule, at(5, 17, 5))).toBe(true);
+    expect(canStartPhase({ currentPhase: phase }, { ...schedule, outsideHours: "pause" }, at(5, 17, 5))).toBe(false);
+  });
+});
+
+describe("isStartOfWorkDay", () => {
+  it("only holds in the first minutes of a working day", () => {
+    expect(isStartOfWorkDay(schedule, at(5, 9, 4))).toBe(true);
+    expect(isStartOfWorkDay(schedule, at(5, 9, 5))).toBe(false);
+    expect(isStartOfWorkDay(schedule, at(10, 9))).toBe(false);
+    expect(isStartOfWorkDay(defaultWorkSchedule, at(5, 9))).toBe(false);
+  });
+});
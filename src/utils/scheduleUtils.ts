@@ -0,0 +1,65 @@
+// Working hours during which the timer may start phases and prompt for breaks
+
+import { TimerState, WorkDay, WorkSchedule } from "@/types";
+
+const workDay = (enabled: boolean): WorkDay => ({ enabled, start: "09:00", end: "17:00" });
+
+export const defaultWorkSchedule: WorkSchedule = {
+  enabled: false,
+  days: [false, true, true, true, true, true, false].map(workDay),
+  lunch: { enabled: true, start: "12:00", end: "13:00" },
+  outsideHours: "finish",
+  autoStartFirstFocus: false,
+};
+
+export const WEEKDAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// How long after the day starts the first focus block may still start on its own
+const DAY_START_WINDOW_MINUTES = 5;
+
+// Minutes since midnight of an HH:mm string
+const parseTime = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+const minutesOfDay = (now: Date): number => now.getHours() * 60 + now.getMinutes();
+
+/**
+ * Whether the given time falls inside working hours. Without a schedule every
+ * hour is a working hour.
+ */
+export const isWithinWorkingHours = (schedule: WorkSchedule, now: Date = new Date()): boolean => {
+  if (!schedule.enabled) return true;
+
+  const day = schedule.days[now.getDay()];
+  const minutes = minutesOfDay(now);
+  if (!day?.enabled || minutes < parseTime(day.start) || minutes >= parseTime(day.end)) return false;
+
+  const { lunch } = schedule;
+  return !(lunch.enabled && minutes >= parseTime(lunch.start) && minutes < parseTime(lunch.end));
+};
+
+/**
+ * Whether the timer may start or resume a phase now. Outside working hours a
+ * phase already under way may only resume when it is allowed to finish.
+ */
+export const canStartPhase = (
+  state: Pick<TimerState, 'currentPhase'>,
+  schedule: WorkSchedule,
+  now: Date = new Date()
+): boolean => {
+  if (isWithinWorkingHours(schedule, now)) return true;
+  return schedule.outsideHours === "finish" && state.currentPhase !== null;
+};
+
+/**
+ * Whether the working day has just begun, so the first focus block can start
+ */
+export const isStartOfWorkDay = (schedule: WorkSchedule, now: Date = new Date()): boolean => {
+  const day = schedule.days[now.getDay()];
+  if (!schedule.enabled || !day?.enabled) return false;
+
+  const sinceStart = minutesOfDay(now) - parseTime(day.start);
+  return sinceStart >= 0 && sinceStart < DAY_START_WINDOW_MINUTES && isWithinWorkingHours(schedule, now);
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { PhaseProgress, TimerState } from "@/types";
+import { defaultTimerSettings } from "./timerUtils";
+import { createInitialTimerState } from "./timerMachine";
+import { createSessionRecord } from "./sessionHistory";
+
+const START = Date.UTC(2026, 0, 5, 10, 0, 0);
+
+const minutes = (count: number) => count * 60 * 1000;
+
+const phase = (changes: Partial<PhaseProgress> = {}): PhaseProgress => ({
+  startedAt: START,
+  plannedDuration: 25 * 60,
+  pauses: [],
+  breakActivity: null,
+  taskId: "report",
+  extensions: [],
+  idlePeriods: [],
+  unlocks: [],
+  ...changes,
+});
+
+// A focus phase under way, due to end after its planned 25 minutes
+const running = (changes: Partial<PhaseProgress> = {}, state: Partial<TimerState> = {}): TimerState => ({
+  ...createInitialTimerState(defaultTimerSettings),
+  isRunning: true,
+  endsAt: START + minutes(25),
+  currentPhase: phase(changes),
+  ...state,
+});
+
+describe("createSessionRecord", () => {
+  it("has nothing to record for a phase that never ran", () => {
+    expect(createSessionRecord(createInitialTimerState(defaultTimerSettings), "reset", START)).toBeNull();
+  });
+
+  it("keeps what the phase was", () => {
+    const record = createSessionRecord(running(), "completed", START + minutes(25));
+
+    expect(record).toMatchObject({
+      mode: "focus",
+      plannedDuration: 25 * 60,
+      actualDuration: 25 * 60,
+      overtimeDuration: 0,
+      startedAt: START,
+      endedAt: START + minutes(25),
+      outcome: "completed",
+      taskId: "report",
+      idleDuration: 0,
+    });
+  });
+
+  it("leaves out paused time, an open pause up to the end", () => {
+    const pauses = [
+      { startedAt: START + minutes(5), endedAt: START + minutes(8), reason: null },
+      { startedAt: START + minutes(20), endedAt: null, reason: null },
+    ];
+    const record = createSessionRecord(running({ pauses }, { isRunning: false }), "reset", START + minutes(22));
+
+    expect(record?.actualDuration).toBe(17 * 60);
+    expect(record?.pauses[1].endedAt).toBe(START + minutes(22));
+  });
+
+  it("keeps overtime apart from the focus itself", () => {
+    const record = createSessionRecord(running({}, { overtime: true, timeRemaining: 0 }), "completed", START + minutes(32));
+
+    expect(record?.actualDuration).toBe(25 * 60);
+    expect(record?.overtimeDuration).toBe(7 * 60);
+  });
+
+  it("leaves out idle time unless it was kept", () => {
+    const idlePeriods = [
+      { startedAt: START + minutes(2), endedAt: START + minutes(6), paused: false, kept: false },
+      { startedAt: START + minutes(10), endedAt: START + minutes(12), paused: false, kept: true },
+      { startedAt: START + minutes(20), endedAt: null, paused: false, kept: null },
+    ];
+    const record = createSessionRecord(running({ idlePeriods }), "completed", START + minutes(25));
+
+    expect(record?.idleDuration).toBe(9 * 60);
+    expect(record?.actualDuration).toBe(16 * 60);
+    expect(record?.idlePeriods[2].endedAt).toBe(START + minutes(25));
+  });
+
+  it("does not take idle time the timer was paused for off twice", () => {
+    const pauses = [{ startedAt: START + minutes(5), endedAt: START + minutes(15), reason: null }];
+    const idlePeriods = [{ startedAt: START + minutes(5), endedAt: START + minutes(15), paused: true, kept: false }];
+    const record = createSessionRecord(running({ pauses, idlePeriods }), "completed", START + minutes(35));
+
+    expect(record?.actualDuration).toBe(25 * 60);
+    expect(record?.idleDuration).toBe(0);
+  });
+
+  it("stops counting idle time where overtime begins", () => {
+    const idlePeriods = [{ startedAt: START + minutes(20), endedAt: START + minutes(30), paused: false, kept: false }];
+    const record = createSessionRecord(
+      running({ idlePeriods }, { overtime: true, timeRemaining: 0 }),
+      "completed",
+      START + minutes(30)
+    );
+
+    expect(record?.idleDuration).toBe(5 * 60);
+    expect(record?.actualDuration).toBe(20 * 60);
+    expect(record?.overtimeDuration).toBe(5 * 60);
+  });
+});
@@ -0,0 +1,411 @@
+// Persistent log of every focus and break phase
+
+import { IdlePeriod, InterruptionReason, PhaseExtension, PhaseProgress, SessionOutcome, SessionRecord, TimerState } from "@/types";
+import { StorageChange } from "@/types/chrome";
+import { isExtensionContext, getFromLocalStorage } from "./chromeUtils";
+import { DailyFocusTotals, getDailyFocusTotals } from "./goalUtils";
+import { startOfDay } from "date-fns";
+import { v4 as uuidv4 } from 'uuid';
+
+export const SESSION_HISTORY_KEY = "focusflow_session_history";
+
+// Today's totals, rewritten with the history so the goal ring can subscribe
+// to them instead of loading every record
+export const DAILY_FOCUS_KEY = "focusflow_daily_focus";
+
+// Keep storage bounded; a few years of daily use fits comfortably
+export const MAX_SESSION_RECORDS = 5000;
+
+const DB_NAME = "focusflow";
+const DB_VERSION = 1;
+const SESSION_STORE = "sessions";
+
+/**
+ * Starts tracking a phase the first time it runs, or closes the open pause when it resumes
+ */
+export const beginPhase = (state: TimerState, now: number = Date.now()): PhaseProgress => {
+  if (!state.currentPhase) {
+    return {
+      startedAt: now,
+      plannedDuration: state.timeRemaining,
+      pauses: [],
+      breakActivity: state.breakActivity,
+      taskId: state.mode === "focus" ? state.activeTaskId : null,
+      extensions: [],
+      idlePeriods: [],
+      unlocks: [],
+    };
+  }
+
+  return {
+    ...state.currentPhase,
+    pauses: state.currentPhase.pauses.map((pause) =>
+      pause.endedAt === null ? { ...pause, endedAt: now } : pause
+    ),
+  };
+};
+
+/**
+ * Records the start of a pause in the phase in progress
+ */
+export const pausePhase = (phase: PhaseProgress | null, now: number = Date.now()): PhaseProgress | null => {
+  if (!phase) return null;
+  return { ...phase, pauses: [...phase.pauses, { startedAt: now, endedAt: null, reason: null }] };
+};
+
+/**
+ * Records why the most recent pause happened
+ */
+export const labelLastPause = (
+  phase: PhaseProgress | null,
+  reason: InterruptionReason,
+  note?: string
+): PhaseProgress | null => {
+  if (!phase || phase.pauses.length === 0) return phase;
+
+  const pauses = [...phase.pauses];
+  const { startedAt, endedAt } = pauses[pauses.length - 1];
+  pauses[pauses.length - 1] = {
+    startedAt,
+    endedAt,
+    reason,
+    ...(reason === "custom" && note?.trim() ? { note: note.trim() } : {}),
+  };
+
+  return { ...phase, pauses };
+};
+
+/**
+ * Logs an unlock of a blocked site during the phase. The timer keeps running,
+ * so it is kept apart from the pauses.
+ */
+export const recordUnlock = (
+  phase: PhaseProgress,
+  site: string,
+  reason: string,
+  now: number = Date.now()
+): PhaseProgress => ({
+  ...phase,
+  unlocks: [...(phase.unlocks || []), { at: now, site, reason: reason.trim() }],
+});
+
+/**
+ * Records time added to the phase in progress
+ */
+export const extendPhase = (phase: PhaseProgress, seconds: number, now: number = Date.now()): PhaseProgress => {
+  const extension: PhaseExtension = { at: now, seconds };
+  return { ...phase, extensions: [...(phase.extensions || []), extension] };
+};
+
+/**
+ * Records that the user went idle, counted from their last input
+ */
+export const beginIdle = (phase: PhaseProgress, since: number, paused: boolean): PhaseProgress => {
+  const period: IdlePeriod = { startedAt: since, endedAt: null, paused, kept: null };
+  return { ...phase, idlePeriods: [...(phase.idlePeriods || []), period] };
+};
+
+/**
+ * Closes the open idle period once the user is back
+ */
+export const endIdle = (phase: PhaseProgress, now: number = Date.now()): PhaseProgress => {
+  return {
+    ...phase,
+    idlePeriods: (phase.idlePeriods || []).map((period) =>
+      period.endedAt === null ? { ...period, endedAt: now } : period
+    ),
+  };
+};
+
+/**
+ * The idle period the user has come back from but not yet kept or discarded
+ */
+export const getPendingIdle = (phase: PhaseProgress | null): IdlePeriod | null => {
+  const last = phase?.idlePeriods?.[phase.idlePeriods.length - 1];
+  return last && last.endedAt !== null && last.kept === null ? last : null;
+};
+
+/**
+ * Records whether the most recent idle period should count as focus
+ */
+export const resolveLastIdle = (phase: PhaseProgress, kept: boolean): PhaseProgress => {
+  const idlePeriods = [...(phase.idlePeriods || [])];
+  if (idlePeriods.length === 0) return phase;
+
+  idlePeriods[idlePeriods.length - 1] = { ...idlePeriods[idlePeriods.length - 1], kept };
+  return { ...phase, idlePeriods };
+};
+
+/**
+ * Total paused time of a phase in milliseconds, counting an open pause up to now
+ */
+export const getPausedMs = (phase: PhaseProgress, now: number = Date.now()): number => {
+  return phase.pauses.reduce(
+    (total, pause) => total + ((pause.endedAt ?? now) - pause.startedAt),
+    0
+  );
+};
+
+/**
+ * Builds the history entry for a phase that just ended, or null if it never ran
+ */
+export const createSessionRecord = (
+  state: TimerState,
+  outcome: SessionOutcome,
+  endedAt: number = Date.now()
+): SessionRecord | null => {
+  const phase = state.currentPhase;
+  if (!phase) return null;
+
+  // Time past the planned end in flow mode is kept apart from the session itself
+  const focusEndedAt = state.overtime && state.endsAt ? Math.min(endedAt, state.endsAt) : endedAt;
+
+  const pauses = phase.pauses.map((pause) => ({ ...pause, endedAt: pause.endedAt ?? endedAt }));
+  const activeMs = focusEndedAt - phase.startedAt - getPausedMs({ ...phase, pauses }, focusEndedAt);
+
+  // Time away while the timer kept running only counts if the user kept it.
+  // Time the timer was paused for is already left out with the pauses.
+  const idlePeriods = (phase.idlePeriods || []).map((period) => ({ ...period, endedAt: period.endedAt ?? endedAt }));
+  const idleMs = idlePeriods
+    .filter((period) => !period.paused && period.kept !== true)
+    .reduce((total, period) => total + Math.max(0, Math.min(period.endedAt, focusEndedAt) - period.startedAt), 0);
+
+  return {
+    id: uuidv4(),
+    mode: state.mode,
+    plannedDuration: phase.plannedDuration,
+    actualDuration: Math.max(0, Math.round((activeMs - idleMs) / 1000)),
+    overtimeDuration: Math.max(0, Math.round((endedAt - focusEndedAt) / 1000)),
+    startedAt: phase.startedAt,
+    endedAt,
+    pauses,
+    outcome,
+    breakActivity: phase.breakActivity,
+    taskId: phase.taskId ?? null,
+    extensions: phase.extensions || [],
+    idlePeriods,
+    idleDuration: Math.round(idleMs / 1000),
+    unlocks: phase.unlocks || [],
+  };
+};
+
+// IndexedDB is used when chrome.storage is unavailable (standalone web app)
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// IndexedDB has no change events, so in-page subscribers are notified directly
+const localListeners = new Set<(records: SessionRecord[]) => void>();
+const localTotalsListeners = new Set<(totals: DailyFocusTotals) => void>();
+
+const notifyLocalListeners = async () => {
+  if (localListeners.size > 0) {
+    const records = await getSessionRecords();
+    localListeners.forEach((listener) => listener(records));
+  }
+  if (localTotalsListeners.size > 0) {
+    const totals = await getTodaysFocusTotals();
+    localTotalsListeners.forEach((listener) => listener(totals));
+  }
+};
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          db.createObjectStore(SESSION_STORE, { keyPath: "id" }).createIndex("startedAt", "startedAt");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+const runStoreRequest = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(SESSION_STORE, mode).objectStore(SESSION_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Writes straight to chrome.storage.local without the cross-tab broadcast,
+// since the history can be large and tabs read it on demand
+const setLocalValue = (value: SessionRecord[] | null): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const done = () => {
+      if (chrome.runtime.lastError) {
+        reject(chrome.runtime.lastError);
+      } else {
+        resolve();
+      }
+    };
+
+    if (value === null) {
+      chrome.storage.local.remove([SESSION_HISTORY_KEY, DAILY_FOCUS_KEY], done);
+    } else {
+      chrome.storage.local.set({ [SESSION_HISTORY_KEY]: value, [DAILY_FOCUS_KEY]: getDailyFocusTotals(value) }, done);
+    }
+  });
+};
+
+/**
+ * Appends a record to the session history
+ */
+export const addSessionRecord = async (record: SessionRecord): Promise<void> => {
+  try {
+    if (isExtensionContext()) {
+      const records = (await getFromLocalStorage<SessionRecord[]>(SESSION_HISTORY_KEY)) || [];
+      await setLocalValue([...records, record].slice(-MAX_SESSION_RECORDS));
+      return;
+    }
+
+    await runStoreRequest("readwrite", (store) => store.put(record));
+    await notifyLocalListeners();
+  } catch (error) {
+    console.error("Error saving session record:", error);
+  }
+};
+
+/**
+ * Returns every recorded session, oldest first
+ */
+export const getSessionRecords = async (): Promise<SessionRecord[]> => {
+  try {
+    if (isExtensionContext()) {
+      return (await getFromLocalStorage<SessionRecord[]>(SESSION_HISTORY_KEY)) || [];
+    }
+
+    return await runStoreRequest<SessionRecord[]>("readonly", (store) =>
+      store.index("startedAt").getAll()
+    );
+  } catch (error) {
+    console.error("Error loading session history:", error);
+    return [];
+  }
+};
+
+/**
+ * Today's focus totals. The web app only reads today's records from its index.
+ */
+export const getTodaysFocusTotals = async (now: Date = new Date()): Promise<DailyFocusTotals> => {
+  try {
+    if (isExtensionContext()) {
+      // Histories written before the totals existed are added up once
+      const stored = await getFromLocalStorage<DailyFocusTotals>(DAILY_FOCUS_KEY);
+      return stored ?? getDailyFocusTotals(await getSessionRecords(), now);
+    }
+
+    const todaysRecords = await runStoreRequest<SessionRecord[]>("readonly", (store) =>
+      store.index("startedAt").getAll(IDBKeyRange.lowerBound(startOfDay(now).getTime()))
+    );
+    return getDailyFocusTotals(todaysRecords, now);
+  } catch (error) {
+    console.error("Error loading today's focus:", error);
+    return getDailyFocusTotals([], now);
+  }
+};
+
+/**
+ * The records a replaced history keeps: the newest ones, oldest first
+ */
+export const trimSessionRecords = (records: SessionRecord[]): SessionRecord[] => {
+  return [...records].sort((a, b) => a.startedAt - b.startedAt).slice(-MAX_SESSION_RECORDS);
+};
+
+/**
+ * Replaces the whole history, e.g. when restoring a backup
+ */
+export const replaceSessionRecords = async (records: SessionRecord[]): Promise<void> => {
+  const kept = trimSessionRecords(records);
+
+  if (isExtensionContext()) {
+    await setLocalValue(kept);
+    return;
+  }
+
+  // One transaction, so a failed restore leaves the old history in place
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, "readwrite");
+    const store = transaction.objectStore(SESSION_STORE);
+    store.clear();
+    kept.forEach((record) => store.put(record));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  await notifyLocalListeners();
+};
+
+/**
+ * Removes all recorded sessions
+ */
+export const clearSessionHistory = async (): Promise<void> => {
+  try {
+    if (isExtensionContext()) {
+      await setLocalValue(null);
+      return;
+    }
+
+    await runStoreRequest("readwrite", (store) => store.clear());
+    await notifyLocalListeners();
+  } catch (error) {
+    console.error("Error clearing session history:", error);
+  }
+};
+
+/**
+ * Calls back with the full history whenever a new session is recorded
+ */
+export const listenForSessionHistory = (callback: (records: SessionRecord[]) => void): (() => void) => {
+  if (!isExtensionContext()) {
+    localListeners.add(callback);
+    return () => {
+      localListeners.delete(callback);
+    };
+  }
+
+  const listener = (changes: { [key: string]: StorageChange }, areaName: string) => {
+    if (areaName === "local" && SESSION_HISTORY_KEY in changes) {
+      callback((changes[SESSION_HISTORY_KEY].newValue as SessionRecord[] | undefined) || []);
+    }
+  };
+
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+};
+
+/**
+ * Calls back with today's focus totals whenever a session is recorded
+ */
+export const listenForTodaysFocusTotals = (callback: (totals: DailyFocusTotals) => void): (() => void) => {
+  if (!isExtensionContext()) {
+    localTotalsListeners.add(callback);
+    return () => {
+      localTotalsListeners.delete(callback);
+    };
+  }
+
+  const listener = (changes: { [key: string]: StorageChange }, areaName: string) => {
+    if (areaName === "local" && DAILY_FOCUS_KEY in changes) {
+      callback((changes[DAILY_FOCUS_KEY].newValue as DailyFocusTotals | undefined) ?? getDailyFocusTotals([]));
+    }
+  };
+
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { SETTINGS_VERSION, defaultTimerSettings } from "./timerUtils";
+import { normalizeSettings } from "./settingsSchema";
+
+describe("normalizeSettings", () => {
+  it("uses the defaults when nothing is stored", () => {
+    expect(normalizeSettings(null)).toEqual({ settings: defaultTimerSettings, migratedFrom: null, repaired: [] });
+  });
+
+  it("reports stored settings that are not an object", () => {
+    const { settings, repaired } = normalizeSettings("not settings");
+
+    expect(settings).toEqual(defaultTimerSettings);
+    expect(repaired).toEqual(["settings"]);
+  });
+
+  it("leaves valid current settings as they are", () => {
+    expect(normalizeSettings({ ...defaultTimerSettings })).toEqual({
+      settings: defaultTimerSettings,
+      migratedFrom: null,
+      repaired: [],
+    });
+  });
+
+  it("converts durations the first version stored in seconds", () => {
+    const { settings, migratedFrom, repaired } = normalizeSettings({ focusDuration: 1500, breakDuration: 300, longBreakDuration: 900 });
+
+    expect(migratedFrom).toBe(1);
+    expect(settings.version).toBe(SETTINGS_VERSION);
+    expect(settings.focusDuration).toBe(25);
+    expect(settings.breakDuration).toBe(5);
+    expect(settings.longBreakDuration).toBe(15);
+    expect(repaired).toEqual([]);
+  });
+
+  it("keeps first version durations that were already minutes", () => {
+    const { settings } = normalizeSettings({ focusDuration: 50, breakDuration: 10 });
+
+    expect(settings.focusDuration).toBe(50);
+    expect(settings.breakDuration).toBe(10);
+  });
+
+  it("clamps values out of range and reports them", () => {
+    const { settings, repaired } = normalizeSettings({
+      ...defaultTimerSettings,
+      focusDuration: 500,
+      sessionsBeforeLongBreak: 0,
+      idleAction: "sleep",
+    });
+
+    expect(settings.focusDuration).toBe(120);
+    expect(settings.sessionsBeforeLongBreak).toBe(1);
+    expect(settings.idleAction).toBe(defaultTimerSettings.idleAction);
+    expect(repaired).toEqual(["focusDuration", "sessionsBeforeLongBreak", "idleAction"]);
+  });
+
+  it("never lets a proportional break end below its minimum", () => {
+    const { settings } = normalizeSettings({
+      ...defaultTimerSettings,
+      breakRule: { type: "proportional", focusMinutesPerBreakMinute: 5, minMinutes: 10, maxMinutes: 3 },
+    });
+
+    expect(settings.breakRule.minMinutes).toBe(10);
+    expect(settings.breakRule.maxMinutes).toBe(10);
+  });
+
+  it("falls back to the default hours for a working day that ends before it starts", () => {
+    const days = defaultTimerSettings.workSchedule.days.map((day) => ({ ...day, start: "18:00", end: "09:00" }));
+    const { settings } = normalizeSettings({ ...defaultTimerSettings, workSchedule: { ...defaultTimerSettings.workSchedule, days } });
+
+    expect(settings.workSchedule.days).toEqual(defaultTimerSettings.workSchedule.days);
+  });
+
+  it("validates settings from a newer version without migrating them", () => {
+    const { settings, migratedFrom } = normalizeSettings({ ...defaultTimerSettings, version: SETTINGS_VERSION + 1, focusDuration: 1500 });
+
+    expect(migratedFrom).toBeNull();
+    expect(settings.version).toBe(SETTINGS_VERSION);
+    expect(settings.focusDuration).toBe(120);
+  });
+});
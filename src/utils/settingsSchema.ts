@@ -0,0 +1,310 @@
+// Stored settings are migrated to the current schema and validated every time
+// they are loaded, by the app and the extension worker alike.
+
+import {
+  BlockingSettings,
+  BreakRule,
+  DailyGoalType,
+  GoalStreak,
+  IdleAction,
+  NotificationSettings,
+  OutsideHoursBehavior,
+  ShortcutBindings,
+  SoundCueSettings,
+  SoundSettings,
+  SpeechSettings,
+  TimerPreset,
+  TimerSettings,
+  WorkDay,
+  WorkSchedule
+} from "@/types";
+import { SETTINGS_VERSION, defaultTimerSettings } from "./timerUtils";
+import { SHORTCUT_ACTIONS, isValidShortcut } from "./shortcutUtils";
+import { NOTIFICATION_EVENTS } from "./notificationUtils";
+import { isValidSoundId } from "./soundUtils";
+import { MAX_SPEECH_TEMPLATE_LENGTH, SPEECH_CUES } from "./speechUtils";
+import { MAX_SITE_PATTERNS, UNLOCK_MINUTES, normalizeSitePattern } from "./blockingUtils";
+
+export interface NormalizedSettings {
+  settings: TimerSettings;
+  migratedFrom: number | null; // version the stored settings were upgraded from
+  repaired: string[]; // fields that held invalid values and were reset or clamped
+}
+
+// Longest phases the duration controls allow, in minutes
+export const MAX_FOCUS_MINUTES = 120;
+export const MAX_BREAK_MINUTES = 30;
+export const MAX_LONG_BREAK_MINUTES = 60;
+
+const DURATION_FIELDS = [
+  ["focusDuration", MAX_FOCUS_MINUTES],
+  ["breakDuration", MAX_BREAK_MINUTES],
+  ["longBreakDuration", MAX_LONG_BREAK_MINUTES],
+] as const;
+
+type StoredSettings = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+// Each migration upgrades settings from the version it is keyed by to the next
+const migrations: Record<number, (settings: StoredSettings) => StoredSettings> = {
+  // Version 1 had no version field, and the worker seeded durations in
+  // seconds while the app read minutes. A duration too long to be minutes
+  // that is a whole number of minutes was written in seconds.
+  1: (settings) => {
+    const migrated = { ...settings };
+    DURATION_FIELDS.forEach(([field, max]) => {
+      const value = migrated[field];
+      if (typeof value === "number" && value > max && value % 60 === 0) {
+        migrated[field] = value / 60;
+      }
+    });
+    return migrated;
+  },
+};
+
+const toInteger = (value: unknown, min: number, max: number, fallback: number): number => {
+  if (typeof value !== "number" || !Number.isFinite(value)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(value)));
+};
+
+const toBoolean = (value: unknown, fallback: boolean): boolean => {
+  return typeof value === "boolean" ? value : fallback;
+};
+
+const toOption = <T extends string>(value: unknown, options: readonly T[], fallback: T): T => {
+  return options.includes(value as T) ? (value as T) : fallback;
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const toTimeRange = (value: unknown, fallback: WorkDay): WorkDay => {
+  if (!isObject(value)) return fallback;
+
+  const start = typeof value.start === "string" && TIME_PATTERN.test(value.start) ? value.start : fallback.start;
+  const end = typeof value.end === "string" && TIME_PATTERN.test(value.end) ? value.end : fallback.end;
+  return {
+    enabled: toBoolean(value.enabled, fallback.enabled),
+    // A range that ends before it starts can never match, so fall back to the default hours
+    ...(start < end ? { start, end } : { start: fallback.start, end: fallback.end }),
+  };
+};
+
+const toWorkSchedule = (value: unknown): WorkSchedule => {
+  const fallback = defaultTimerSettings.workSchedule;
+  if (!isObject(value)) return fallback;
+
+  const days = Array.isArray(value.days) && value.days.length === 7
+    ? fallback.days.map((day, index) => toTimeRange((value.days as unknown[])[index], day))
+    : fallback.days;
+
+  return {
+    enabled: toBoolean(value.enabled, fallback.enabled),
+    days,
+    lunch: toTimeRange(value.lunch, fallback.lunch),
+    outsideHours: toOption<OutsideHoursBehavior>(value.outsideHours, ["pause", "finish"], fallback.outsideHours),
+    autoStartFirstFocus: toBoolean(value.autoStartFirstFocus, fallback.autoStartFirstFocus),
+  };
+};
+
+const toBreakRule = (value: unknown): BreakRule => {
+  const fallback = defaultTimerSettings.breakRule;
+  if (!isObject(value)) return fallback;
+
+  const minMinutes = toInteger(value.minMinutes, 1, MAX_BREAK_MINUTES, fallback.minMinutes);
+  return {
+    type: toOption<BreakRule["type"]>(value.type, ["fixed", "proportional"], fallback.type),
+    focusMinutesPerBreakMinute: toInteger(value.focusMinutesPerBreakMinute, 1, 30, fallback.focusMinutesPerBreakMinute),
+    minMinutes,
+    // The maximum can not fall below the minimum
+    maxMinutes: toInteger(value.maxMinutes, minMinutes, MAX_BREAK_MINUTES, Math.max(minMinutes, fallback.maxMinutes)),
+  };
+};
+
+const toGoalStreak = (value: unknown): GoalStreak => {
+  if (!isObject(value)) return defaultTimerSettings.goalStreak;
+
+  return {
+    count: toInteger(value.count, 0, Number.MAX_SAFE_INTEGER, 0),
+    lastMetDate: typeof value.lastMetDate === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value.lastMetDate)
+      ? value.lastMetDate
+      : null,
+  };
+};
+
+const toShortcuts = (value: unknown): ShortcutBindings => {
+  const fallback = defaultTimerSettings.shortcuts;
+  if (!isObject(value)) return fallback;
+
+  const shortcuts = { ...fallback };
+  SHORTCUT_ACTIONS.forEach(({ action }) => {
+    const shortcut = value[action];
+    if (typeof shortcut === "string" && isValidShortcut(shortcut)) {
+      shortcuts[action] = shortcut;
+    }
+  });
+  return shortcuts;
+};
+
+const toNotifications = (value: unknown): NotificationSettings => {
+  const fallback = defaultTimerSettings.notifications;
+  if (!isObject(value)) return fallback;
+
+  const notifications = { ...fallback };
+  NOTIFICATION_EVENTS.forEach(({ event }) => {
+    notifications[event] = toBoolean(value[event], fallback[event]);
+  });
+  return notifications;
+};
+
+const toSoundCue = (value: unknown, fallback: SoundCueSettings): SoundCueSettings => {
+  if (!isObject(value)) return fallback;
+
+  return {
+    soundId: typeof value.soundId === "string" && isValidSoundId(value.soundId) ? value.soundId : fallback.soundId,
+    volume: toInteger(value.volume, 0, 100, fallback.volume),
+  };
+};
+
+const toSounds = (value: unknown): SoundSettings => {
+  const fallback = defaultTimerSettings.sounds;
+  if (!isObject(value)) return fallback;
+
+  return {
+    breakStart: toSoundCue(value.breakStart, fallback.breakStart),
+    focusStart: toSoundCue(value.focusStart, fallback.focusStart),
+    tick: toSoundCue(value.tick, fallback.tick),
+    tickDuringFocus: toBoolean(value.tickDuringFocus, fallback.tickDuringFocus),
+  };
+};
+
+const toSpeech = (value: unknown): SpeechSettings => {
+  const fallback = defaultTimerSettings.speech;
+  if (!isObject(value)) return fallback;
+
+  // An empty template silences its cue
+  const templates = { ...fallback.templates };
+  const stored = value.templates;
+  if (isObject(stored)) {
+    SPEECH_CUES.forEach(({ cue }) => {
+      const template = stored[cue];
+      if (typeof template === "string") templates[cue] = template.slice(0, MAX_SPEECH_TEMPLATE_LENGTH);
+    });
+  }
+
+  return {
+    enabled: toBoolean(value.enabled, fallback.enabled),
+    replaceSounds: toBoolean(value.replaceSounds, fallback.replaceSounds),
+    voiceURI: typeof value.voiceURI === "string" ? value.voiceURI : fallback.voiceURI,
+    rate: toInteger(value.rate, 50, 200, fallback.rate),
+    templates,
+  };
+};
+
+// Entries that are not sites are dropped, and duplicates kept once
+const toSitePatterns = (value: unknown, fallback: string[]): string[] => {
+  if (!Array.isArray(value)) return fallback;
+
+  const patterns = value
+    .map((entry) => (typeof entry === "string" ? normalizeSitePattern(entry) : null))
+    .filter((pattern): pattern is string => pattern !== null);
+  return Array.from(new Set(patterns)).slice(0, MAX_SITE_PATTERNS);
+};
+
+const toBlocking = (value: unknown): BlockingSettings => {
+  const fallback = defaultTimerSettings.blocking;
+  if (!isObject(value)) return fallback;
+
+  return {
+    enabled: toBoolean(value.enabled, fallback.enabled),
+    mode: toOption<BlockingSettings["mode"]>(value.mode, ["blocklist", "allowlist"], fallback.mode),
+    blocklist: toSitePatterns(value.blocklist, fallback.blocklist),
+    allowlist: toSitePatterns(value.allowlist, fallback.allowlist),
+    unlockMinutes: UNLOCK_MINUTES.includes(value.unlockMinutes as number) ? (value.unlockMinutes as number) : fallback.unlockMinutes,
+  };
+};
+
+// Presets that can not be repaired are dropped rather than guessed at
+const toPresets = (value: unknown): TimerPreset[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter((preset): preset is Record<string, unknown> =>
+      isObject(preset) && typeof preset.id === "string" && typeof preset.name === "string" && preset.name.trim().length > 0
+    )
+    .map((preset) => ({
+      id: preset.id as string,
+      name: (preset.name as string).trim(),
+      focusDuration: toInteger(preset.focusDuration, 1, MAX_FOCUS_MINUTES, defaultTimerSettings.focusDuration),
+      breakDuration: toInteger(preset.breakDuration, 1, MAX_BREAK_MINUTES, defaultTimerSettings.breakDuration),
+      longBreakDuration: toInteger(preset.longBreakDuration, 1, MAX_LONG_BREAK_MINUTES, defaultTimerSettings.longBreakDuration),
+      autoStartBreaks: toBoolean(preset.autoStartBreaks, defaultTimerSettings.autoStartBreaks),
+      autoStartFocus: toBoolean(preset.autoStartFocus, defaultTimerSettings.autoStartFocus),
+    }));
+};
+
+/**
+ * Brings every field into its valid range, using the default for anything
+ * missing or of the wrong type
+ */
+export const validateSettings = (stored: StoredSettings): TimerSettings => {
+  const defaults = defaultTimerSettings;
+
+  return {
+    version: SETTINGS_VERSION,
+    focusDuration: toInteger(stored.focusDuration, 1, MAX_FOCUS_MINUTES, defaults.focusDuration),
+    breakDuration: toInteger(stored.breakDuration, 1, MAX_BREAK_MINUTES, defaults.breakDuration),
+    breakRule: toBreakRule(stored.breakRule),
+    longBreakDuration: toInteger(stored.longBreakDuration, 1, MAX_LONG_BREAK_MINUTES, defaults.longBreakDuration),
+    sessionsBeforeLongBreak: toInteger(stored.sessionsBeforeLongBreak, 1, 12, defaults.sessionsBeforeLongBreak),
+    autoStartBreaks: toBoolean(stored.autoStartBreaks, defaults.autoStartBreaks),
+    autoStartFocus: toBoolean(stored.autoStartFocus, defaults.autoStartFocus),
+    autoStartDelay: toInteger(stored.autoStartDelay, 0, 60, defaults.autoStartDelay),
+    presets: toPresets(stored.presets),
+    overtimeEnabled: toBoolean(stored.overtimeEnabled, defaults.overtimeEnabled),
+    scaleBreakWithFocus: toBoolean(stored.scaleBreakWithFocus, defaults.scaleBreakWithFocus),
+    dailyGoalType: toOption<DailyGoalType>(stored.dailyGoalType, ["minutes", "sessions"], defaults.dailyGoalType),
+    dailyGoalTarget: toInteger(stored.dailyGoalTarget, 0, 1440, defaults.dailyGoalTarget),
+    goalStreak: toGoalStreak(stored.goalStreak),
+    maxExtensionsPerPhase: toInteger(stored.maxExtensionsPerPhase, 0, 10, defaults.maxExtensionsPerPhase),
+    workSchedule: toWorkSchedule(stored.workSchedule),
+    idleAction: toOption<IdleAction>(stored.idleAction, ["off", "pause", "mark"], defaults.idleAction),
+    idleThreshold: toInteger(stored.idleThreshold, 1, 60, defaults.idleThreshold),
+    shortcuts: toShortcuts(stored.shortcuts),
+    notifications: toNotifications(stored.notifications),
+    sounds: toSounds(stored.sounds),
+    speech: toSpeech(stored.speech),
+    blocking: toBlocking(stored.blocking),
+  };
+};
+
+/**
+ * Migrates stored settings of any version to the current schema and repairs
+ * invalid values. Settings from a newer version are validated as they are.
+ */
+export const normalizeSettings = (stored: unknown): NormalizedSettings => {
+  if (!isObject(stored)) {
+    return { settings: defaultTimerSettings, migratedFrom: null, repaired: stored === null || stored === undefined ? [] : ["settings"] };
+  }
+
+  const storedVersion = typeof stored.version === "number" ? stored.version : 1;
+  let migrated: StoredSettings = stored;
+  for (let version = storedVersion; version < SETTINGS_VERSION; version++) {
+    migrated = migrations[version]?.(migrated) ?? migrated;
+  }
+
+  const settings = validateSettings(migrated);
+
+  // Report fields that were present but had to change; missing ones just take the default
+  const repaired = (Object.keys(settings) as (keyof TimerSettings)[]).filter((key) =>
+    key !== "version" && key in migrated && JSON.stringify(migrated[key]) !== JSON.stringify(settings[key])
+  );
+
+  return {
+    settings,
+    migratedFrom: storedVersion < SETTINGS_VERSION ? storedVersion : null,
+    repaired,
+  };
+};
@@ -0,0 +1,104 @@
+// Timer settings, stored alongside the rest of the FocusFlow data
+
+import { TimerSettings } from "@/types";
+import { StorageChange } from "@/types/chrome";
+import { isExtensionContext, getFromLocalStorage } from "./chromeUtils";
+import { defaultTimerSettings } from "./timerUtils";
+import { normalizeSettings } from "./settingsSchema";
+
+export const SETTINGS_KEY = "focusflow_settings";
+
+const readStoredSettings = async (): Promise<unknown> => {
+  if (isExtensionContext()) {
+    return getFromLocalStorage<unknown>(SETTINGS_KEY);
+  }
+
+  const storedSettings = localStorage.getItem(SETTINGS_KEY);
+  if (!storedSettings) return null;
+
+  try {
+    return JSON.parse(storedSettings);
+  } catch {
+    // Unreadable settings are repaired like any other corrupt value
+    return storedSettings;
+  }
+};
+
+/**
+ * Returns the stored settings, migrated to the current schema and repaired.
+ * Anything that had to change is written back so it is only fixed once.
+ */
+export const getStoredSettings = async (): Promise<TimerSettings> => {
+  try {
+    const { settings, migratedFrom, repaired } = normalizeSettings(await readStoredSettings());
+
+    if (migratedFrom !== null || repaired.length > 0) {
+      if (repaired.length > 0) {
+        console.warn(`Repaired invalid settings: ${repaired.join(", ")}`);
+      }
+      // The repaired settings are still usable if they can not be stored
+      await saveSettings(settings).catch((error) => console.error("Error saving repaired settings:", error));
+    }
+
+    return settings;
+  } catch (error) {
+    console.error("Error loading settings:", error);
+    return defaultTimerSettings;
+  }
+};
+
+/**
+ * Replaces the stored settings. In the extension the worker is the only
+ * writer, so this asks it to validate and store them. Failures are passed on.
+ */
+export const saveSettings = async (settings: TimerSettings): Promise<void> => {
+  if (!isExtensionContext()) {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    return;
+  }
+
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage({ action: 'updateSettings', settings }, (response) => {
+      if (chrome.runtime.lastError) {
+        reject(chrome.runtime.lastError);
+      } else if (!response?.success) {
+        reject(new Error(response?.error || "Saving settings failed"));
+      } else {
+        resolve();
+      }
+    });
+  });
+};
+
+/**
+ * Calls back with the settings whenever they change in another tab, or from
+ * the worker in the extension
+ */
+export const listenForSettings = (callback: (settings: TimerSettings) => void): (() => void) => {
+  if (!isExtensionContext()) {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== SETTINGS_KEY) return;
+
+      let value: unknown = null;
+      try {
+        value = event.newValue ? JSON.parse(event.newValue) : null;
+      } catch {
+        // Unreadable settings are repaired like any other corrupt value
+        value = event.newValue;
+      }
+      callback(normalizeSettings(value).settings);
+    };
+
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }
+
+  const listener = (changes: { [key: string]: StorageChange }, areaName: string) => {
+    if (areaName === "local" && SETTINGS_KEY in changes) {
+      callback(normalizeSettings(changes[SETTINGS_KEY].newValue).settings);
+    }
+  };
+
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { defaultShortcuts, getShortcutFromEvent, isValidShortcut } from "./shortcutUtils";
+
+// A key press with the given key position and modifiers
+const keyPress = (code: string, modifiers: Partial<KeyboardEvent> = {}) => ({
+  code,
+  ctrlKey: false,
+  altKey: false,
+  shiftKey: false,
+  metaKey: false,
+  ...modifiers,
+}) as KeyboardEvent;
+
+describe("isValidShortcut", () => {
+  it("accepts the default bindings and an empty one", () => {
+    Object.values(defaultShortcuts).forEach((shortcut) => expect(isValidShortcut(shortcut)).toBe(true));
+    expect(isValidShortcut("")).toBe(true);
+  });
+
+  it("needs Ctrl, Alt or Meta", () => {
+    expect(isValidShortcut("Ctrl+K")).toBe(true);
+    expect(isValidShortcut("Shift+Meta+1")).toBe(true);
+    expect(isValidShortcut("Shift+K")).toBe(false);
+    expect(isValidShortcut("K")).toBe(false);
+  });
+
+  it("refuses modifiers out of order and other keys", () => {
+    expect(isValidShortcut("Shift+Alt+K")).toBe(false);
+    expect(isValidShortcut("Alt+Space")).toBe(false);
+    expect(isValidShortcut("Alt+k")).toBe(false);
+  });
+});
+
+describe("getShortcutFromEvent", () => {
+  it("writes the modifiers in order before the key", () => {
+    expect(getShortcutFromEvent(keyPress("KeyS", { shiftKey: true, altKey: true }))).toBe("Alt+Shift+S");
+    expect(getShortcutFromEvent(keyPress("Digit5", { ctrlKey: true, metaKey: true }))).toBe("Ctrl+Meta+5");
+  });
+
+  it("reads the key by position, whatever character Alt typed", () => {
+    expect(getShortcutFromEvent(keyPress("KeyS", { altKey: true, key: "ß" }))).toBe("Alt+S");
+  });
+
+  it("ignores keys that can not be a shortcut", () => {
+    expect(getShortcutFromEvent(keyPress("KeyS"))).toBeNull();
+    expect(getShortcutFromEvent(keyPress("KeyS", { shiftKey: true }))).toBeNull();
+    expect(getShortcutFromEvent(keyPress("Space", { altKey: true }))).toBeNull();
+    expect(getShortcutFromEvent(keyPress("AltLeft", { altKey: true }))).toBeNull();
+  });
+});
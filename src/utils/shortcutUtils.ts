@@ -0,0 +1,123 @@
+// Keyboard shortcuts. The extension registers them as chrome.commands, which
+// the background worker handles and users rebind on Chrome's shortcuts page.
+// The standalone app has no such page, so it listens for the bindings stored
+// in its settings instead.
+
+import { ShortcutAction, ShortcutBindings } from "@/types";
+import { isExtensionContext } from "./chromeUtils";
+
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: "toggle-timer", label: "Start or pause the timer" },
+  { action: "skip-phase", label: "Skip to the next phase" },
+  { action: "open-panel", label: "Open the FocusFlow panel" },
+  { action: "extend-timer", label: "Add 5 minutes to the current phase" },
+];
+
+// The same keys manifest.json suggests for the extension
+export const defaultShortcuts: ShortcutBindings = {
+  "toggle-timer": "Alt+Shift+S",
+  "skip-phase": "Alt+Shift+N",
+  "open-panel": "Alt+Shift+F",
+  "extend-timer": "Alt+Shift+E",
+};
+
+// Minutes the extend shortcut adds, to breaks as well as focus
+export const SHORTCUT_EXTEND_MINUTES = 5;
+
+// Modifiers in the order they are written, then a letter or digit
+const SHORTCUT_PATTERN = /^(Ctrl\+)?(Alt\+)?(Shift\+)?(Meta\+)?[A-Z0-9]$/;
+
+/**
+ * Whether a binding can be used. Shift alone is not enough, as it would
+ * catch ordinary typing; an empty binding turns the shortcut off.
+ */
+export const isValidShortcut = (shortcut: string): boolean => {
+  return shortcut === "" || (SHORTCUT_PATTERN.test(shortcut) && /(Ctrl|Alt|Meta)\+/.test(shortcut));
+};
+
+/**
+ * The binding a key press would match, or null if it can not be a shortcut.
+ * Keys are read by position, as Alt changes the character on some layouts.
+ */
+export const getShortcutFromEvent = (event: KeyboardEvent): string | null => {
+  const key = /^(?:Key|Digit)([A-Z0-9])$/.exec(event.code)?.[1];
+  if (!key) return null;
+
+  const shortcut = [
+    event.ctrlKey && "Ctrl",
+    event.altKey && "Alt",
+    event.shiftKey && "Shift",
+    event.metaKey && "Meta",
+    key,
+  ].filter(Boolean).join("+");
+
+  return isValidShortcut(shortcut) ? shortcut : null;
+};
+
+/**
+ * Whether a key event comes from somewhere the user is typing
+ */
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+};
+
+/**
+ * Calls back with the action of each shortcut used on this page. In the
+ * extension the worker runs the timer shortcuts itself and only passes on
+ * "open-panel", which needs the page.
+ */
+export const listenForShortcuts = (
+  bindings: ShortcutBindings,
+  onShortcut: (action: ShortcutAction) => void
+): (() => void) => {
+  if (isExtensionContext()) {
+    const listener = (message: { action?: string; command?: ShortcutAction }) => {
+      if (message.action === "shortcut" && message.command) {
+        onShortcut(message.command);
+      }
+    };
+
+    chrome.runtime.onMessage.addListener(listener);
+    return () => chrome.runtime.onMessage.removeListener(listener);
+  }
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    // Keys typed into a field belong to the field
+    if (isEditableTarget(event.target)) return;
+
+    const shortcut = getShortcutFromEvent(event);
+    const match = shortcut && SHORTCUT_ACTIONS.find(({ action }) => bindings[action] === shortcut);
+    if (!match) return;
+
+    event.preventDefault();
+    onShortcut(match.action);
+  };
+
+  window.addEventListener("keydown", handleKeyDown);
+  return () => window.removeEventListener("keydown", handleKeyDown);
+};
+
+/**
+ * The keys Chrome has bound to the extension's commands; empty for commands
+ * the user left unbound
+ */
+export const getExtensionShortcuts = (): Promise<Partial<ShortcutBindings>> => {
+  if (!isExtensionContext()) return Promise.resolve({});
+
+  return new Promise((resolve) => {
+    chrome.runtime.sendMessage({ action: "getShortcuts" }, (response) => {
+      resolve(chrome.runtime.lastError || !response?.shortcuts ? {} : response.shortcuts);
+    });
+  });
+};
+
+/**
+ * Opens Chrome's page for rebinding extension shortcuts, which pages can
+ * not open themselves
+ */
+export const openShortcutSettings = (): void => {
+  if (isExtensionContext()) {
+    chrome.runtime.sendMessage({ action: "openShortcutSettings" });
+  }
+};
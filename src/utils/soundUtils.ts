@@ -0,0 +1,254 @@
+// Timer sounds: the bundled ones, and uploads kept in IndexedDB. In the
+// extension the uploads live in the worker's database, since content scripts
+// only reach the database of the page they run in, and the worker plays every
+// sound through its offscreen document.
+
+import { v4 as uuidv4 } from "uuid";
+import { CustomSound, CustomSoundInfo, SoundCue, SoundCueSettings, SoundSettings } from "@/types";
+import { getExtensionURL, isExtensionContext } from "./chromeUtils";
+import { readFileAsDataUrl } from "./fileUtils";
+
+export const BUNDLED_SOUNDS: { id: string; label: string; path: string }[] = [
+  { id: "time-for-break", label: "Voice: time for a break", path: "/assets/time-for-break.mp3" },
+  { id: "time-for-focus", label: "Voice: time to focus", path: "/assets/time-for-focus.mp3" },
+  { id: "chime", label: "Chime", path: "/assets/chime.wav" },
+  { id: "tick", label: "Clock tick", path: "/assets/tick.wav" },
+];
+
+export const SOUND_NONE = "none";
+export const CUSTOM_SOUND_PREFIX = "custom:";
+
+// Uploads travel to the worker as data URLs, so keep them small
+export const MAX_CUSTOM_SOUND_BYTES = 1024 * 1024;
+
+export const SOUND_CUES: { cue: SoundCue; label: string }[] = [
+  { cue: "breakStart", label: "Focus ends" },
+  { cue: "focusStart", label: "Break ends" },
+  { cue: "tick", label: "Ticking during focus" },
+];
+
+export const defaultSoundSettings: SoundSettings = {
+  breakStart: { soundId: "time-for-break", volume: 70 },
+  focusStart: { soundId: "time-for-focus", volume: 70 },
+  tick: { soundId: "tick", volume: 30 },
+  tickDuringFocus: false,
+};
+
+/**
+ * Whether a sound id can be stored in the settings. Uploads are checked
+ * when they are played, as they may have been deleted since.
+ */
+export const isValidSoundId = (soundId: string): boolean => {
+  return soundId === SOUND_NONE ||
+    soundId.startsWith(CUSTOM_SOUND_PREFIX) ||
+    BUNDLED_SOUNDS.some((sound) => sound.id === soundId);
+};
+
+const DB_NAME = "focusflow_sounds";
+const DB_VERSION = 1;
+const SOUND_STORE = "sounds";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SOUND_STORE)) {
+          db.createObjectStore(SOUND_STORE, { keyPath: "id" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+const runStoreRequest = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(SOUND_STORE, mode).objectStore(SOUND_STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * The uploads in this context's own database, oldest first. Extension pages
+ * go through the worker, which owns the library.
+ */
+export const readStoredSounds = async (): Promise<CustomSound[]> => {
+  const sounds = await runStoreRequest<CustomSound[]>("readonly", (store) => store.getAll());
+  return sounds.sort((a, b) => a.addedAt - b.addedAt);
+};
+
+export const readStoredSound = (id: string): Promise<CustomSound | undefined> => {
+  return runStoreRequest<CustomSound | undefined>("readonly", (store) => store.get(id));
+};
+
+export const writeStoredSound = async (sound: CustomSound): Promise<void> => {
+  await runStoreRequest("readwrite", (store) => store.put(sound));
+};
+
+export const removeStoredSound = async (id: string): Promise<void> => {
+  await runStoreRequest("readwrite", (store) => store.delete(id));
+};
+
+/**
+ * Replaces the whole library in one transaction, so a failed restore leaves
+ * the old sounds in place
+ */
+export const replaceStoredSounds = async (sounds: CustomSound[]): Promise<void> => {
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(SOUND_STORE, "readwrite");
+    const store = transaction.objectStore(SOUND_STORE);
+    store.clear();
+    sounds.forEach((sound) => store.put(sound));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Asks the worker to do something with its sound library
+const sendSoundMessage = <T>(message: Record<string, unknown>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    chrome.runtime.sendMessage(message, (response) => {
+      if (chrome.runtime.lastError) {
+        reject(chrome.runtime.lastError);
+      } else if (!response?.success) {
+        reject(new Error(response?.error || "The sound library is not available"));
+      } else {
+        resolve(response);
+      }
+    });
+  });
+};
+
+export const toSoundInfo = ({ dataUrl, ...info }: CustomSound): CustomSoundInfo => info;
+
+/**
+ * Lists the uploaded sounds, oldest first
+ */
+export const getCustomSounds = async (): Promise<CustomSoundInfo[]> => {
+  try {
+    if (isExtensionContext()) {
+      return (await sendSoundMessage<{ sounds: CustomSoundInfo[] }>({ action: "getCustomSounds" })).sounds;
+    }
+
+    return (await readStoredSounds()).map(toSoundInfo);
+  } catch (error) {
+    console.error("Error loading custom sounds:", error);
+    return [];
+  }
+};
+
+/**
+ * The uploaded sounds with their audio, for a backup. Unlike the list above,
+ * failures are passed on so a backup is never silently missing its sounds.
+ */
+export const exportCustomSounds = async (): Promise<CustomSound[]> => {
+  if (isExtensionContext()) {
+    return (await sendSoundMessage<{ sounds: CustomSound[] }>({ action: "exportCustomSounds" })).sounds;
+  }
+
+  return readStoredSounds();
+};
+
+/**
+ * Stores an uploaded audio file. Throws with a message for the user when the
+ * file can not be used.
+ */
+export const addCustomSound = async (file: File): Promise<CustomSoundInfo> => {
+  if (!file.type.startsWith("audio/")) {
+    throw new Error("Choose an audio file, such as an MP3 or WAV.");
+  }
+  if (file.size > MAX_CUSTOM_SOUND_BYTES) {
+    throw new Error("Sounds can be up to 1 MB.");
+  }
+
+  const sound: CustomSound = {
+    id: `${CUSTOM_SOUND_PREFIX}${uuidv4()}`,
+    name: file.name.replace(/\.[^.]+$/, "") || "Custom sound",
+    dataUrl: await readFileAsDataUrl(file),
+    size: file.size,
+    addedAt: Date.now(),
+  };
+
+  if (isExtensionContext()) {
+    await sendSoundMessage({ action: "saveCustomSound", sound });
+  } else {
+    await writeStoredSound(sound);
+  }
+  return toSoundInfo(sound);
+};
+
+/**
+ * Removes an uploaded sound. Cues still set to it fall back to their default.
+ */
+export const deleteCustomSound = async (id: string): Promise<void> => {
+  if (isExtensionContext()) {
+    await sendSoundMessage({ action: "deleteCustomSound", id });
+    return;
+  }
+
+  await removeStoredSound(id);
+};
+
+/**
+ * The URL to play for a cue from the local sound library, or null when it is
+ * silent. Uploads that no longer exist fall back to the cue's default sound.
+ * The worker passes chrome.runtime.getURL to resolve the bundled files.
+ */
+export const getSoundSource = async (
+  cue: SoundCue,
+  soundId: string,
+  toUrl: (path: string) => string = getExtensionURL
+): Promise<string | null> => {
+  if (soundId === SOUND_NONE) return null;
+
+  if (soundId.startsWith(CUSTOM_SOUND_PREFIX)) {
+    try {
+      const sound = await readStoredSound(soundId);
+      if (sound) return sound.dataUrl;
+    } catch (error) {
+      console.error("Error loading custom sound:", error);
+    }
+    soundId = defaultSoundSettings[cue].soundId;
+  }
+
+  const bundled = BUNDLED_SOUNDS.find((sound) => sound.id === soundId);
+  return bundled ? toUrl(bundled.path) : null;
+};
+
+/**
+ * Plays a cue once with its settings, so a choice can be heard before it is kept
+ */
+export const previewSound = async (cue: SoundCue, settings: SoundCueSettings): Promise<void> => {
+  if (isExtensionContext()) {
+    await sendSoundMessage({ action: "previewSound", cue, settings }).catch((error) => {
+      console.error("Error previewing sound:", error);
+    });
+    return;
+  }
+
+  const src = await getSoundSource(cue, settings.soundId);
+  if (!src) return;
+
+  const audio = new Audio(src);
+  audio.volume = settings.volume / 100;
+  audio.play().catch((error) => console.error("Error previewing sound:", error));
+};
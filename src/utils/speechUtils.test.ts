@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { defaultSpeechSettings, fillSpeechTemplate } from "./speechUtils";
+
+const { templates } = defaultSpeechSettings;
+
+describe("fillSpeechTemplate", () => {
+  it("fills in the task and the minutes", () => {
+    expect(fillSpeechTemplate(templates.focusComplete, { task: "", minutes: 5 })).toBe("Focus complete, 5 minute break");
+    expect(fillSpeechTemplate(templates.breakComplete, { task: "Write the report", minutes: 25 })).toBe("Back to work. Write the report");
+  });
+
+  it("fills in every placeholder", () => {
+    expect(fillSpeechTemplate("{minutes} minutes, {minutes} to go", { task: "", minutes: 3 })).toBe("3 minutes, 3 to go");
+  });
+
+  it("leaves no stray space or full stop without a task", () => {
+    expect(fillSpeechTemplate(templates.breakComplete, { task: "", minutes: 25 })).toBe("Back to work.");
+    expect(fillSpeechTemplate("Start {task} , {minutes} minutes", { task: "", minutes: 25 })).toBe("Start, 25 minutes");
+  });
+
+  it("keeps a task's own punctuation", () => {
+    expect(fillSpeechTemplate("Back to work. {task}.", { task: "Call Sam!", minutes: 25 })).toBe("Back to work. Call Sam!");
+  });
+});
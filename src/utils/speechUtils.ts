@@ -0,0 +1,113 @@
+// Spoken announcements through the Web Speech API, for people who follow the
+// timer with headphones and no screen. In the extension the worker speaks
+// through its offscreen document with the same templates, so each
+// announcement is heard once; pages only speak previews.
+
+import { SpeechCue, SpeechSettings, TimerState } from "@/types";
+import type { TimerAnnouncement } from "./timerMachine";
+import { getTasks } from "./taskStorage";
+
+export const SPEECH_CUES: { cue: SpeechCue; label: string }[] = [
+  { cue: "focusComplete", label: "Focus ends" },
+  { cue: "breakComplete", label: "Break ends" },
+  { cue: "oneMinuteLeft", label: "One minute left" },
+];
+
+export const defaultSpeechSettings: SpeechSettings = {
+  enabled: false,
+  replaceSounds: false,
+  voiceURI: "",
+  rate: 100,
+  templates: {
+    focusComplete: "Focus complete, {minutes} minute break",
+    breakComplete: "Back to work. {task}",
+    oneMinuteLeft: "One minute left",
+  },
+};
+
+// How long before a phase ends the warning is spoken
+export const ONE_MINUTE_WARNING_SECONDS = 60;
+
+// Longest template the settings keep
+export const MAX_SPEECH_TEMPLATE_LENGTH = 200;
+
+export interface SpeechValues {
+  task: string; // title of the active task, empty when none is picked
+  minutes: number; // length of the phase that starts, or minutes left for the warning
+}
+
+/**
+ * Fills in a template. An empty {task} leaves no stray space or full stop behind.
+ */
+export const fillSpeechTemplate = (template: string, { task, minutes }: SpeechValues): string => {
+  return template
+    .replace(/\{task\}/g, task)
+    .replace(/\{minutes\}/g, String(minutes))
+    .replace(/\s+/g, " ")
+    .replace(/\s+([.,!?])/g, "$1")
+    .replace(/([.,!?])[.,]+/g, "$1")
+    .trim();
+};
+
+/**
+ * The cue to speak after the timer announced a transition, with the minutes
+ * of the phase that follows. Overtime has nothing to say yet, as the break
+ * keeps growing until focus ends.
+ */
+export const getPhaseSpeech = (
+  next: TimerState,
+  announcement: TimerAnnouncement
+): { cue: SpeechCue; minutes: number } | null => {
+  if (announcement === "overtime") return null;
+
+  return {
+    cue: next.mode === "focus" ? "breakComplete" : "focusComplete",
+    minutes: Math.round(next.timeRemaining / 60),
+  };
+};
+
+/**
+ * Title of a task for {task}, or an empty string
+ */
+export const getTaskTitle = async (taskId: string | null): Promise<string> => {
+  if (!taskId) return "";
+  return (await getTasks()).find((task) => task.id === taskId)?.title ?? "";
+};
+
+export const isSpeechSupported = (): boolean => "speechSynthesis" in window;
+
+/**
+ * The voices the browser offers. They load in the background, so wait for
+ * them briefly on first use.
+ */
+export const getVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  if (!isSpeechSupported()) return Promise.resolve([]);
+
+  const voices = speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise((resolve) => {
+    const done = () => {
+      speechSynthesis.removeEventListener("voiceschanged", done);
+      resolve(speechSynthesis.getVoices());
+    };
+    speechSynthesis.addEventListener("voiceschanged", done);
+    setTimeout(done, 1000);
+  });
+};
+
+/**
+ * Speaks a text with the chosen voice and rate, cutting off anything still
+ * being said
+ */
+export const speak = async (text: string, speech: SpeechSettings): Promise<void> => {
+  if (!text || !isSpeechSupported()) return;
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.rate = speech.rate / 100;
+  const voice = speech.voiceURI && (await getVoices()).find((v) => v.voiceURI === speech.voiceURI);
+  if (voice) utterance.voice = voice;
+
+  speechSynthesis.cancel();
+  speechSynthesis.speak(utterance);
+};
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { Task } from "@/types";
+import { sessionRecord } from "@/test/fixtures";
+import {
+  getBreakTakingRate,
+  getDailyStats,
+  getLongestStreak,
+  getStatsSummary,
+  getTagProgress,
+  getWeeklyStats
+} from "./statsUtils";
+
+// A day of January 2026, the 5th being a Monday, in local time like the stats
+const day = (date: number, hour: number = 10) => new Date(2026, 0, date, hour).getTime();
+
+const task = (id: string, tag: string, estimatedPomodoros: number): Task => ({
+  id,
+  title: id,
+  tag,
+  estimatedPomodoros,
+  done: false,
+  createdAt: day(1),
+});
+
+describe("getDailyStats", () => {
+  it("counts focus time of every outcome but only completed sessions", () => {
+    const stats = getDailyStats([
+      sessionRecord({ startedAt: day(5) }),
+      sessionRecord({ startedAt: day(5, 14), actualDuration: 10 * 60, outcome: "reset" }),
+      sessionRecord({ startedAt: day(5, 15), mode: "break", actualDuration: 5 * 60 }),
+      sessionRecord({ startedAt: day(4), overtimeDuration: 5 * 60 }),
+    ], 2, new Date(day(5, 18)));
+
+    expect(stats).toEqual([
+      { date: "2026-01-04", label: "Sun", focusMinutes: 30, sessions: 1 },
+      { date: "2026-01-05", label: "Mon", focusMinutes: 35, sessions: 1 },
+    ]);
+  });
+});
+
+describe("getWeeklyStats", () => {
+  it("groups focus time into weeks starting on Monday", () => {
+    const stats = getWeeklyStats([
+      sessionRecord({ startedAt: day(4) }),
+      sessionRecord({ startedAt: day(5) }),
+      sessionRecord({ startedAt: day(11) }),
+    ], 2, new Date(day(11)));
+
+    expect(stats.map(({ weekStart, focusMinutes }) => ({ weekStart, focusMinutes }))).toEqual([
+      { weekStart: "2025-12-29", focusMinutes: 25 },
+      { weekStart: "2026-01-05", focusMinutes: 50 },
+    ]);
+  });
+});
+
+describe("getBreakTakingRate", () => {
+  it("counts a break only when it follows a completed focus and was taken", () => {
+    const rate = getBreakTakingRate([
+      sessionRecord({ startedAt: day(5, 9) }),
+      sessionRecord({ startedAt: day(5, 10), mode: "break", actualDuration: 5 * 60 }),
+      sessionRecord({ startedAt: day(5, 11) }),
+      sessionRecord({ startedAt: day(5, 12), mode: "break", actualDuration: 0, outcome: "skipped" }),
+    ]);
+
+    expect(rate).toBe(0.5);
+  });
+
+  it("is zero without completed focus", () => {
+    expect(getBreakTakingRate([sessionRecord({ mode: "break" })])).toBe(0);
+  });
+});
+
+describe("getLongestStreak", () => {
+  it("finds the longest run of days with a completed focus", () => {
+    const streak = getLongestStreak([
+      sessionRecord({ startedAt: day(1) }),
+      sessionRecord({ startedAt: day(3) }),
+      sessionRecord({ startedAt: day(4) }),
+      sessionRecord({ startedAt: day(4, 16) }),
+      sessionRecord({ startedAt: day(5) }),
+      sessionRecord({ startedAt: day(6), outcome: "reset" }),
+    ]);
+
+    expect(streak).toBe(3);
+  });
+});
+
+describe("getStatsSummary", () => {
+  it("includes overtime in the focus total and leaves it out of the average", () => {
+    const summary = getStatsSummary([
+      sessionRecord({ startedAt: day(5, 9), overtimeDuration: 10 * 60 }),
+      sessionRecord({ startedAt: day(5, 11), actualDuration: 15 * 60 }),
+    ]);
+
+    expect(summary.totalFocusMinutes).toBe(50);
+    expect(summary.overtimeMinutes).toBe(10);
+    expect(summary.completedSessions).toBe(2);
+    expect(summary.averageSessionMinutes).toBe(20);
+  });
+});
+
+describe("getTagProgress", () => {
+  it("adds up estimates and completed sessions per tag", () => {
+    const progress = getTagProgress(
+      [task("a", "work", 3), task("b", "work", 2), task("c", "", 1)],
+      [
+        sessionRecord({ startedAt: day(5, 9), taskId: "a" }),
+        sessionRecord({ startedAt: day(5, 10), taskId: "b" }),
+        sessionRecord({ startedAt: day(5, 11), taskId: "b", outcome: "skipped" }),
+        sessionRecord({ startedAt: day(5, 12), taskId: "c" }),
+      ]
+    );
+
+    expect(progress.find(({ tag }) => tag === "work")).toEqual({ tag: "work", estimatedPomodoros: 5, actualPomodoros: 2 });
+    expect(progress.find(({ tag }) => tag !== "work")?.actualPomodoros).toBe(1);
+  });
+});
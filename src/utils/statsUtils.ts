@@ -0,0 +1,220 @@
+// Productivity statistics derived from the session history
+
+import { format, parseISO, startOfDay, startOfWeek, subDays, subWeeks, differenceInCalendarDays } from "date-fns";
+import { SessionRecord, Task } from "@/types";
+import { UNTAGGED } from "./exportUtils";
+import { isBreakMode } from "./timerUtils";
+
+export interface DailyStat {
+  date: string; // yyyy-MM-dd
+  label: string;
+  focusMinutes: number;
+  sessions: number;
+}
+
+export interface WeeklyStat {
+  weekStart: string; // yyyy-MM-dd
+  label: string;
+  focusMinutes: number;
+}
+
+export interface StatsSummary {
+  totalFocusMinutes: number;
+  overtimeMinutes: number; // flow-mode time past the planned end, included in the focus totals
+  completedSessions: number;
+  breakTakingRate: number; // 0..1
+  averageSessionMinutes: number;
+  longestStreak: number; // consecutive days with a completed focus session
+}
+
+export interface TaskProgress {
+  task: Task;
+  actualPomodoros: number;
+}
+
+export interface TagProgress {
+  tag: string;
+  estimatedPomodoros: number;
+  actualPomodoros: number;
+}
+
+const dayKey = (timestamp: number | Date): string => format(timestamp, "yyyy-MM-dd");
+
+const toMinutes = (seconds: number): number => Math.round(seconds / 60);
+
+const isFocusRecord = (record: SessionRecord) => record.mode === "focus";
+
+// Records written before flow mode existed have no overtime
+const getOvertime = (record: SessionRecord) => record.overtimeDuration ?? 0;
+
+const getFocusedSeconds = (record: SessionRecord) => record.actualDuration + getOvertime(record);
+
+const isCompletedFocus = (record: SessionRecord) =>
+  isFocusRecord(record) && record.outcome === "completed";
+
+// Time spent counts even when a session was reset part way through
+export const getFocusSecondsByDay = (records: SessionRecord[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+
+  records.filter(isFocusRecord).forEach((record) => {
+    const key = dayKey(record.startedAt);
+    totals.set(key, (totals.get(key) || 0) + getFocusedSeconds(record));
+  });
+
+  return totals;
+};
+
+export const getDailyStats = (
+  records: SessionRecord[],
+  days: number = 7,
+  now: Date = new Date()
+): DailyStat[] => {
+  const focusSeconds = getFocusSecondsByDay(records);
+  const sessions = new Map<string, number>();
+
+  records.filter(isCompletedFocus).forEach((record) => {
+    const key = dayKey(record.startedAt);
+    sessions.set(key, (sessions.get(key) || 0) + 1);
+  });
+
+  return Array.from({ length: days }, (_, i) => {
+    const day = subDays(startOfDay(now), days - 1 - i);
+    const key = dayKey(day);
+
+    return {
+      date: key,
+      label: format(day, "EEE"),
+      focusMinutes: toMinutes(focusSeconds.get(key) || 0),
+      sessions: sessions.get(key) || 0,
+    };
+  });
+};
+
+export const getWeeklyStats = (
+  records: SessionRecord[],
+  weeks: number = 8,
+  now: Date = new Date()
+): WeeklyStat[] => {
+  const totals = new Map<string, number>();
+
+  records.filter(isFocusRecord).forEach((record) => {
+    const key = dayKey(startOfWeek(record.startedAt, { weekStartsOn: 1 }));
+    totals.set(key, (totals.get(key) || 0) + getFocusedSeconds(record));
+  });
+
+  return Array.from({ length: weeks }, (_, i) => {
+    const weekStart = subWeeks(startOfWeek(now, { weekStartsOn: 1 }), weeks - 1 - i);
+    const key = dayKey(weekStart);
+
+    return {
+      weekStart: key,
+      label: format(weekStart, "MMM d"),
+      focusMinutes: toMinutes(totals.get(key) || 0),
+    };
+  });
+};
+
+// Share of completed focus sessions whose next recorded phase is a break
+// actually taken. Pairing each session with the one after it keeps breaks
+// from other days or after skipped focus from counting.
+export const getBreakTakingRate = (records: SessionRecord[]): number => {
+  const sorted = [...records].sort((a, b) => a.startedAt - b.startedAt);
+  let completedFocus = 0;
+  let breaksTaken = 0;
+
+  sorted.forEach((record, index) => {
+    if (!isCompletedFocus(record)) return;
+    completedFocus++;
+
+    const next = sorted[index + 1];
+    if (next && isBreakMode(next.mode) && next.outcome !== "skipped" && next.actualDuration > 0) {
+      breaksTaken++;
+    }
+  });
+
+  return completedFocus === 0 ? 0 : Math.min(1, breaksTaken / completedFocus);
+};
+
+export const getAverageSessionMinutes = (records: SessionRecord[]): number => {
+  const completed = records.filter(isCompletedFocus);
+  if (completed.length === 0) return 0;
+
+  const totalSeconds = completed.reduce((sum, record) => sum + record.actualDuration, 0);
+  return toMinutes(totalSeconds / completed.length);
+};
+
+export const getLongestStreak = (records: SessionRecord[]): number => {
+  const days = Array.from(new Set(records.filter(isCompletedFocus).map((record) => dayKey(record.startedAt))))
+    .sort();
+
+  let longest = 0;
+  let current = 0;
+  let previous: string | null = null;
+
+  days.forEach((day) => {
+    current = previous && differenceInCalendarDays(parseISO(day), parseISO(previous)) === 1 ? current + 1 : 1;
+    longest = Math.max(longest, current);
+    previous = day;
+  });
+
+  return longest;
+};
+
+export const getStatsSummary = (records: SessionRecord[]): StatsSummary => {
+  const focusRecords = records.filter(isFocusRecord);
+  const totalSeconds = focusRecords.reduce((sum, record) => sum + getFocusedSeconds(record), 0);
+  const overtimeSeconds = focusRecords.reduce((sum, record) => sum + getOvertime(record), 0);
+
+  return {
+    totalFocusMinutes: toMinutes(totalSeconds),
+    overtimeMinutes: toMinutes(overtimeSeconds),
+    completedSessions: records.filter(isCompletedFocus).length,
+    breakTakingRate: getBreakTakingRate(records),
+    averageSessionMinutes: getAverageSessionMinutes(records),
+    longestStreak: getLongestStreak(records),
+  };
+};
+
+// Bucket a day's focus minutes into heatmap intensity levels 0-4
+export const getHeatLevel = (focusMinutes: number): number => {
+  if (focusMinutes <= 0) return 0;
+  if (focusMinutes < 30) return 1;
+  if (focusMinutes < 90) return 2;
+  if (focusMinutes < 180) return 3;
+  return 4;
+};
+
+// Completed focus sessions per task id
+export const getPomodorosByTask = (records: SessionRecord[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+
+  records.filter(isCompletedFocus).forEach((record) => {
+    if (record.taskId) {
+      counts.set(record.taskId, (counts.get(record.taskId) || 0) + 1);
+    }
+  });
+
+  return counts;
+};
+
+export const getTaskProgress = (tasks: Task[], records: SessionRecord[]): TaskProgress[] => {
+  const counts = getPomodorosByTask(records);
+  return tasks.map((task) => ({ task, actualPomodoros: counts.get(task.id) || 0 }));
+};
+
+export const getTagProgress = (tasks: Task[], records: SessionRecord[]): TagProgress[] => {
+  const totals = new Map<string, TagProgress>();
+
+  getTaskProgress(tasks, records).forEach(({ task, actualPomodoros }) => {
+    const tag = task.tag || UNTAGGED;
+    const total = totals.get(tag) || { tag, estimatedPomodoros: 0, actualPomodoros: 0 };
+
+    totals.set(tag, {
+      tag,
+      estimatedPomodoros: total.estimatedPomodoros + task.estimatedPomodoros,
+      actualPomodoros: total.actualPomodoros + actualPomodoros,
+    });
+  });
+
+  return Array.from(totals.values()).sort((a, b) => a.tag.localeCompare(b.tag));
+};
@@ -0,0 +1,83 @@
+// Task list that focus sessions are counted against
+
+import { Task } from "@/types";
+import { StorageChange } from "@/types/chrome";
+import { isExtensionContext, getFromLocalStorage, saveToLocalStorage } from "./chromeUtils";
+import { v4 as uuidv4 } from 'uuid';
+
+export const TASKS_KEY = "focusflow_tasks";
+
+// window.localStorage only fires change events in other tabs, so in-page
+// subscribers are notified directly
+const localListeners = new Set<(tasks: Task[]) => void>();
+
+/**
+ * Builds a new open task
+ */
+export const createTask = (title: string, tag: string, estimatedPomodoros: number): Task => ({
+  id: uuidv4(),
+  title: title.trim(),
+  tag: tag.trim(),
+  estimatedPomodoros: Math.max(1, Math.round(estimatedPomodoros)),
+  done: false,
+  createdAt: Date.now(),
+});
+
+/**
+ * Returns every task, oldest first
+ */
+export const getTasks = async (): Promise<Task[]> => {
+  try {
+    if (isExtensionContext()) {
+      return (await getFromLocalStorage<Task[]>(TASKS_KEY)) || [];
+    }
+
+    const storedTasks = localStorage.getItem(TASKS_KEY);
+    return storedTasks ? JSON.parse(storedTasks) : [];
+  } catch (error) {
+    console.error("Error loading tasks:", error);
+    return [];
+  }
+};
+
+/**
+ * Replaces the stored task list. Failures are passed on.
+ */
+export const saveTasks = async (tasks: Task[]): Promise<void> => {
+  if (isExtensionContext()) {
+    await saveToLocalStorage(TASKS_KEY, tasks);
+    return;
+  }
+
+  localStorage.setItem(TASKS_KEY, JSON.stringify(tasks));
+  localListeners.forEach((listener) => listener(tasks));
+};
+
+/**
+ * Calls back with the full task list whenever it changes in any tab
+ */
+export const listenForTasks = (callback: (tasks: Task[]) => void): (() => void) => {
+  if (!isExtensionContext()) {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === TASKS_KEY) {
+        callback(event.newValue ? JSON.parse(event.newValue) : []);
+      }
+    };
+
+    localListeners.add(callback);
+    window.addEventListener("storage", handleStorage);
+    return () => {
+      localListeners.delete(callback);
+      window.removeEventListener("storage", handleStorage);
+    };
+  }
+
+  const listener = (changes: { [key: string]: StorageChange }, areaName: string) => {
+    if (areaName === "local" && TASKS_KEY in changes) {
+      callback((changes[TASKS_KEY].newValue as Task[] | undefined) || []);
+    }
+  };
+
+  chrome.storage.onChanged.addListener(listener);
+  return () => chrome.storage.onChanged.removeListener(listener);
+};
@@ -0,0 +1,39 @@
+// Log of the events that moved the timer, oldest first. In the extension the
+// background worker writes it; the standalone app writes it here.
+
+import { TimerEventLogEntry } from "@/types";
+import { isExtensionContext, getFromLocalStorage } from "./chromeUtils";
+
+export const TIMER_EVENTS_KEY = "focusflow_timer_events";
+
+// Only the most recent events are kept
+export const MAX_TIMER_EVENTS = 200;
+
+/**
+ * Returns the logged timer events, oldest first
+ */
+export const getTimerEvents = async (): Promise<TimerEventLogEntry[]> => {
+  try {
+    if (isExtensionContext()) {
+      return (await getFromLocalStorage<TimerEventLogEntry[]>(TIMER_EVENTS_KEY)) || [];
+    }
+
+    const storedEvents = localStorage.getItem(TIMER_EVENTS_KEY);
+    return storedEvents ? JSON.parse(storedEvents) : [];
+  } catch (error) {
+    console.error("Error loading timer events:", error);
+    return [];
+  }
+};
+
+/**
+ * Adds an event to the log kept by the standalone app
+ */
+export const appendTimerEvent = async (entry: TimerEventLogEntry): Promise<void> => {
+  try {
+    const events = [...(await getTimerEvents()), entry].slice(-MAX_TIMER_EVENTS);
+    localStorage.setItem(TIMER_EVENTS_KEY, JSON.stringify(events));
+  } catch (error) {
+    console.error("Error saving timer event:", error);
+  }
+};
@@ -0,0 +1,434 @@
+import { describe, expect, it } from "vitest";
+import { TimerEvent, TimerSettings, TimerState } from "@/types";
+import { defaultTimerSettings } from "./timerUtils";
+import { MIN_COUNTED_FOCUS_SECONDS, createInitialTimerState, transition } from "./timerMachine";
+
+const START = Date.UTC(2026, 0, 5, 10, 0, 0);
+
+const settings: TimerSettings = { ...defaultTimerSettings, autoStartBreaks: false, autoStartFocus: false };
+
+// Applies events in order, each at its own time
+const run = (
+  steps: [TimerEvent, number][],
+  state: TimerState = createInitialTimerState(settings),
+  timerSettings: TimerSettings = settings
+) => steps.reduce(
+  (result, [event, now]) => transition(result.state, event, { settings: timerSettings, now }),
+  { state, record: null, announcement: null, entry: null } as ReturnType<typeof transition>
+);
+
+const minutes = (count: number) => count * 60 * 1000;
+
+describe("SKIP", () => {
+  it("does nothing before focus has begun", () => {
+    const state = createInitialTimerState(settings);
+    const result = transition(state, { type: "SKIP" }, { settings, now: START });
+
+    expect(result.state).toBe(state);
+    expect(result.record).toBeNull();
+    expect(result.entry).toBeNull();
+  });
+
+  it("does not count a focus skipped straight away", () => {
+    const { state, record } = run([
+      [{ type: "START" }, START],
+      [{ type: "SKIP" }, START + 5 * 1000],
+    ]);
+
+    expect(state.mode).toBe("break");
+    expect(state.sessionCount).toBe(0);
+    expect(record?.outcome).toBe("skipped");
+  });
+
+  it("counts a focus skipped after some work", () => {
+    const { state, record } = run([
+      [{ type: "START" }, START],
+      [{ type: "SKIP" }, START + MIN_COUNTED_FOCUS_SECONDS * 1000],
+    ]);
+
+    expect(state.mode).toBe("break");
+    expect(state.sessionCount).toBe(1);
+    expect(record?.actualDuration).toBe(MIN_COUNTED_FOCUS_SECONDS);
+  });
+
+  it("leaves out paused time when deciding whether a focus counts", () => {
+    const { state } = run([
+      [{ type: "START" }, START],
+      [{ type: "PAUSE" }, START + 10 * 1000],
+      [{ type: "SKIP" }, START + minutes(10)],
+    ]);
+
+    expect(state.sessionCount).toBe(0);
+  });
+
+  it("never starts a long break from an uncounted focus", () => {
+    const lastOfSet = { ...createInitialTimerState(settings), sessionCount: settings.sessionsBeforeLongBreak - 1 };
+    const { state } = run([
+      [{ type: "START" }, START],
+      [{ type: "SKIP" }, START + 1000],
+    ], lastOfSet);
+
+    expect(state.mode).toBe("break");
+    expect(state.sessionCount).toBe(settings.sessionsBeforeLongBreak - 1);
+  });
+
+  it("skips a break that has not begun", () => {
+    const onBreak = { ...createInitialTimerState(settings), mode: "break" as const, sessionCount: 1 };
+    const result = transition(onBreak, { type: "SKIP" }, { settings, now: START });
+
+    expect(result.state.mode).toBe("focus");
+    expect(result.state.sessionCount).toBe(1);
+    expect(result.record).toBeNull();
+    expect(result.entry?.type).toBe("SKIP");
+  });
+});
+
+describe("RESET", () => {
+  it("records the phase and keeps the position in the set", () => {
+    const running = { ...createInitialTimerState(settings), sessionCount: 2 };
+    const { state, record } = run([
+      [{ type: "START" }, START],
+      [{ type: "RESET" }, START + minutes(3)],
+    ], running);
+
+    expect(state.isRunning).toBe(false);
+    expect(state.currentPhase).toBeNull();
+    expect(state.sessionCount).toBe(2);
+    expect(state.timeRemaining).toBe(settings.focusDuration * 60);
+    expect(record?.outcome).toBe("reset");
+  });
+
+  it("switches to the mode asked for", () => {
+    const { state } = run([[{ type: "RESET", mode: "longBreak" }, START]]);
+
+    expect(state.mode).toBe("longBreak");
+    expect(state.timeRemaining).toBe(settings.longBreakDuration * 60);
+  });
+});
+
+describe("EXTEND", () => {
+  it("adds time to a running phase and moves its end", () => {
+    const { state } = run([
+      [{ type: "START" }, START],
+      [{ type: "EXTEND", seconds: 300 }, START + minutes(1)],
+    ]);
+
+    expect(state.endsAt).toBe(START + minutes(settings.focusDuration + 5));
+    expect(state.timeRemaining).toBe((settings.focusDuration - 1 + 5) * 60);
+    expect(state.currentPhase?.extensions).toHaveLength(1);
+  });
+
+  it("stops at the number of extensions allowed per phase", () => {
+    const limited = { ...settings, maxExtensionsPerPhase: 1 };
+    const { state } = run([
+      [{ type: "START" }, START],
+      [{ type: "EXTEND", seconds: 300 }, START + 1000],
+      [{ type: "EXTEND", seconds: 300 }, START + 2000],
+    ], createInitialTimerState(limited), limited);
+
+    expect(state.currentPhase?.extensions).toHaveLength(1);
+    expect(state.endsAt).toBe(START + minutes(settings.focusDuration + 5));
+  });
+
+  it("does nothing before the phase has begun", () => {
+    const state = createInitialTimerState(settings);
+    expect(transition(state, { type: "EXTEND", seconds: 300 }, { settings, now: START }).state).toBe(state);
+  });
+});
+
+describe("SNOOZE", () => {
+  it("puts off a phase that has not begun", () => {
+    const { state } = run([[{ type: "SNOOZE", seconds: 300 }, START]]);
+
+    expect(state.autoStartAt).toBe(START + minutes(5));
+    expect(state.snoozes).toBe(1);
+  });
+
+  it("shares the allowance with extensions", () => {
+    const limited = { ...settings, maxExtensionsPerPhase: 2 };
+    const snoozed = run([
+      [{ type: "SNOOZE", seconds: 300 }, START],
+      [{ type: "SNOOZE", seconds: 300 }, START + 1000],
+      [{ type: "SNOOZE", seconds: 300 }, START + 2000],
+    ], createInitialTimerState(limited), limited);
+
+    expect(snoozed.state.snoozes).toBe(2);
+    expect(snoozed.state.autoStartAt).toBe(START + 1000 + minutes(5));
+
+    const { state } = run([
+      [{ type: "START" }, START + minutes(1)],
+      [{ type: "EXTEND", seconds: 300 }, START + minutes(2)],
+    ], snoozed.state, limited);
+    expect(state.currentPhase?.extensions).toHaveLength(0);
+  });
+
+  it("starts the next phase with a fresh allowance", () => {
+    const { state } = run([
+      [{ type: "SNOOZE", seconds: 60 }, START],
+      [{ type: "TICK" }, START + minutes(1)],
+      [{ type: "SKIP" }, START + minutes(30)],
+    ]);
+
+    expect(state.mode).toBe("break");
+    expect(state.snoozes).toBe(0);
+  });
+});
+
+describe("TICK", () => {
+  it("refreshes the remaining time without logging it", () => {
+    const { state, entry } = run([
+      [{ type: "START" }, START],
+      [{ type: "TICK" }, START + 10 * 1000],
+    ]);
+
+    expect(state.timeRemaining).toBe(settings.focusDuration * 60 - 10);
+    expect(entry).toBeNull();
+  });
+
+  it("completes the phase at zero and counts it", () => {
+    const { state, record, announcement, entry } = run([
+      [{ type: "START" }, START],
+      [{ type: "TICK" }, START + minutes(settings.focusDuration)],
+    ]);
+
+    expect(state.mode).toBe("break");
+    expect(state.sessionCount).toBe(1);
+    expect(record?.outcome).toBe("completed");
+    expect(announcement).toBe("phaseComplete");
+    expect(entry?.type).toBe("COMPLETE");
+  });
+
+  it("runs into overtime in flow mode until focus is completed by hand", () => {
+    const flow = { ...settings, overtimeEnabled: true };
+    const overtime = run([
+      [{ type: "START" }, START],
+      [{ type: "TICK" }, START + minutes(settings.focusDuration)],
+    ], createInitialTimerState(flow), flow);
+
+    expect(overtime.state.overtime).toBe(true);
+    expect(overtime.state.mode).toBe("focus");
+    expect(overtime.announcement).toBe("overtime");
+
+    // Pausing is not possible in overtime, and ticks change nothing
+    const later = START + minutes(settings.focusDuration + 4);
+    expect(transition(overtime.state, { type: "PAUSE" }, { settings: flow, now: later }).state).toBe(overtime.state);
+    expect(transition(overtime.state, { type: "TICK" }, { settings: flow, now: later }).state).toBe(overtime.state);
+
+    const { state, record } = transition(overtime.state, { type: "COMPLETE" }, { settings: flow, now: later });
+    expect(state.mode).toBe("break");
+    expect(state.sessionCount).toBe(1);
+    expect(record?.overtimeDuration).toBe(4 * 60);
+  });
+
+  it("starts a pending phase once its grace period is over", () => {
+    const pending = { ...createInitialTimerState(settings), autoStartAt: START + 10 * 1000 };
+
+    expect(transition(pending, { type: "TICK" }, { settings, now: START }).state).toBe(pending);
+
+    const { state, entry } = transition(pending, { type: "TICK" }, { settings, now: START + 10 * 1000 });
+    expect(state.isRunning).toBe(true);
+    expect(state.autoStartAt).toBeNull();
+    expect(entry?.type).toBe("START");
+  });
+});
+
+describe("proportional breaks", () => {
+  // One break minute per five focus minutes, between 3 and 15 minutes
+  const proportional: TimerSettings = {
+    ...settings,
+    breakRule: { type: "proportional", focusMinutesPerBreakMinute: 5, minMinutes: 3, maxMinutes: 15 },
+  };
+
+  const breakAfter = (steps: [TimerEvent, number][], timerSettings: TimerSettings = proportional) =>
+    run(steps, createInitialTimerState(timerSettings), timerSettings).state.timeRemaining / 60;
+
+  it("earns a break in proportion to the focus", () => {
+    expect(breakAfter([
+      [{ type: "START" }, START],
+      [{ type: "TICK" }, START + minutes(proportional.focusDuration)],
+    ])).toBe(5);
+  });
+
+  it("earns it from the time worked, not the time planned", () => {
+    expect(breakAfter([
+      [{ type: "START" }, START],
+      [{ type: "SKIP" }, START + minutes(20)],
+    ])).toBe(4);
+
+    expect(breakAfter([
+      [{ type: "START" }, START],
+      [{ type: "PAUSE" }, START + minutes(10)],
+      [{ type: "START" }, START + minutes(20)],
+      [{ type: "TICK" }, START + minutes(proportional.focusDuration + 10)],
+    ])).toBe(5);
+  });
+
+  it("keeps the break within the rule's limits", () => {
+    expect(breakAfter([
+      [{ type: "START" }, START],
+      [{ type: "SKIP" }, START + minutes(5)],
+    ])).toBe(3);
+
+    const long = { ...proportional, focusDuration: 100 };
+    expect(breakAfter([
+      [{ type: "START" }, START],
+      [{ type: "TICK" }, START + minutes(100)],
+    ], long)).toBe(15);
+  });
+
+  it("grows with overtime", () => {
+    const flow = { ...proportional, overtimeEnabled: true };
+    expect(breakAfter([
+      [{ type: "START" }, START],
+      [{ type: "TICK" }, START + minutes(flow.focusDuration)],
+      [{ type: "COMPLETE" }, START + minutes(flow.focusDuration + 15)],
+    ], flow)).toBe(8);
+  });
+});
+
+describe("sets", () => {
+  // Starts the phase shown and ticks it to its end
+  const finish = (state: TimerState, now: number, timerSettings: TimerSettings = settings) => {
+    const end = now + state.timeRemaining * 1000;
+    return { ...run([[{ type: "START" }, now], [{ type: "TICK" }, end]], state, timerSettings), end };
+  };
+
+  it("takes a long break after a full set and then starts a new one", () => {
+    const phases: [string, number][] = [];
+    let state = createInitialTimerState(settings);
+    let now = START;
+
+    for (let i = 0; i < settings.sessionsBeforeLongBreak * 2; i++) {
+      const result = finish(state, now);
+      ({ state } = result);
+      now = result.end;
+      phases.push([state.mode, state.sessionCount]);
+    }
+
+    expect(phases).toEqual([
+      ["break", 1], ["focus", 1],
+      ["break", 2], ["focus", 2],
+      ["break", 3], ["focus", 3],
+      ["longBreak", 4], ["focus", 0],
+    ]);
+  });
+
+  it("takes the long break when the last focus of a set is completed from overtime", () => {
+    const flow = { ...settings, overtimeEnabled: true };
+    const lastOfSet = { ...createInitialTimerState(flow), sessionCount: flow.sessionsBeforeLongBreak - 1 };
+    const overtime = run([
+      [{ type: "START" }, START],
+      [{ type: "TICK" }, START + minutes(flow.focusDuration)],
+    ], lastOfSet, flow);
+
+    const later = START + minutes(flow.focusDuration + 2);
+    const { state } = transition(overtime.state, { type: "COMPLETE" }, { settings: flow, now: later });
+    expect(state.mode).toBe("longBreak");
+    expect(state.sessionCount).toBe(flow.sessionsBeforeLongBreak);
+
+    const { state: next } = finish(state, later, flow);
+    expect(next.mode).toBe("focus");
+    expect(next.sessionCount).toBe(0);
+  });
+
+  it("keeps the count through a focus skipped short of a minute and its break", () => {
+    const midSet = { ...createInitialTimerState(settings), sessionCount: 2 };
+    const skipAt = START + (MIN_COUNTED_FOCUS_SECONDS - 1) * 1000;
+    const skipped = run([
+      [{ type: "START" }, START],
+      [{ type: "SKIP" }, skipAt],
+    ], midSet);
+
+    expect(skipped.state.mode).toBe("break");
+    expect(skipped.state.sessionCount).toBe(2);
+    expect(skipped.record?.actualDuration).toBe(MIN_COUNTED_FOCUS_SECONDS - 1);
+
+    const { state } = finish(skipped.state, skipAt);
+    expect(state.mode).toBe("focus");
+    expect(state.sessionCount).toBe(2);
+  });
+});
+
+describe("idle", () => {
+  it("pauses focus from the last input and resumes when the time is kept", () => {
+    const idleSince = START + minutes(5);
+    const { state } = run([
+      [{ type: "START" }, START],
+      [{ type: "IDLE_START", since: idleSince }, START + minutes(10)],
+      [{ type: "IDLE_END" }, START + minutes(12)],
+      [{ type: "RESOLVE_IDLE", keep: true }, START + minutes(12)],
+    ]);
+
+    expect(state.isRunning).toBe(true);
+    expect(state.endsAt).toBe(START + minutes(settings.focusDuration));
+    expect(state.currentPhase?.pauses).toHaveLength(0);
+  });
+
+  it("leaves the timer paused when the time is discarded", () => {
+    const { state } = run([
+      [{ type: "START" }, START],
+      [{ type: "IDLE_START", since: START + minutes(5) }, START + minutes(10)],
+      [{ type: "IDLE_END" }, START + minutes(12)],
+      [{ type: "RESOLVE_IDLE", keep: false }, START + minutes(12)],
+    ]);
+
+    expect(state.isRunning).toBe(false);
+    expect(state.timeRemaining).toBe((settings.focusDuration - 5) * 60);
+  });
+});
+
+describe("bookkeeping events", () => {
+  it("starts a break when an activity is chosen", () => {
+    const onBreak = { ...createInitialTimerState(settings), mode: "break" as const };
+    const { state, entry } = transition(onBreak, { type: "SELECT_ACTIVITY", activity: "relax" }, { settings, now: START });
+
+    expect(state.isRunning).toBe(true);
+    expect(state.breakActivity).toBe("relax");
+    expect(entry?.type).toBe("START");
+  });
+
+  it("moves a running focus to the chosen task without logging it", () => {
+    const { state, entry } = run([
+      [{ type: "START" }, START],
+      [{ type: "SELECT_TASK", taskId: "task-1" }, START + 1000],
+    ]);
+
+    expect(state.activeTaskId).toBe("task-1");
+    expect(state.currentPhase?.taskId).toBe("task-1");
+    expect(entry).toBeNull();
+  });
+
+  it("labels the last pause", () => {
+    const { state } = run([
+      [{ type: "START" }, START],
+      [{ type: "PAUSE" }, START + 1000],
+      [{ type: "LABEL_PAUSE", reason: "meeting" }, START + 2000],
+    ]);
+
+    expect(state.currentPhase?.pauses[0].reason).toBe("meeting");
+  });
+
+  it("logs an unlock apart from the pauses", () => {
+    const { state, record } = run([
+      [{ type: "START" }, START],
+      [{ type: "LOG_UNLOCK", site: "news.example.com", reason: " check the train " }, START + minutes(2)],
+      [{ type: "SKIP" }, START + minutes(5)],
+    ]);
+
+    expect(state.mode).toBe("break");
+    expect(record?.pauses).toHaveLength(0);
+    expect(record?.unlocks).toEqual([{ at: START + minutes(2), site: "news.example.com", reason: "check the train" }]);
+  });
+
+  it("cancels a pending start", () => {
+    const pending = { ...createInitialTimerState(settings), autoStartAt: START + 10 * 1000 };
+    expect(transition(pending, { type: "CANCEL_AUTO_START" }, { settings, now: START }).state.autoStartAt).toBeNull();
+  });
+
+  it("only changes the duration of the phase shown while it is not running", () => {
+    const state = createInitialTimerState(settings);
+
+    expect(transition(state, { type: "SET_DURATION", mode: "focus", seconds: 600 }, { settings, now: START }).state.timeRemaining).toBe(600);
+    expect(transition(state, { type: "SET_DURATION", mode: "break", seconds: 600 }, { settings, now: START }).state).toBe(state);
+  });
+});
@@ -0,0 +1,371 @@
+// Every change to the timer's phase goes through this state machine. It is
+// pure: the time is passed in, and the session record and announcement it
+// produces are returned for the caller to act on. The standalone app and the
+// extension worker both drive it.
+
+import { IdleAction, SessionOutcome, SessionRecord, TimerEvent, TimerEventLogEntry, TimerSettings, TimerState } from "@/types";
+import {
+  getExtensionsLeft,
+  getModeDuration,
+  getNextPhase,
+  getNextPhaseDuration,
+  getRemainingSeconds,
+  getSnoozesLeft,
+  isBreakMode,
+  shouldAutoStart
+} from "./timerUtils";
+import {
+  beginIdle,
+  beginPhase,
+  createSessionRecord,
+  endIdle,
+  extendPhase,
+  getPendingIdle,
+  labelLastPause,
+  pausePhase,
+  recordUnlock,
+  resolveLastIdle
+} from "./sessionHistory";
+import { canStartPhase, isWithinWorkingHours } from "./scheduleUtils";
+
+// A skipped focus shorter than this does not count towards the set
+export const MIN_COUNTED_FOCUS_SECONDS = 60;
+
+// What the caller should tell the user after a transition
+export type TimerAnnouncement = "overtime" | "phaseComplete";
+
+export interface TimerContext {
+  settings: TimerSettings;
+  now: number; // epoch ms
+}
+
+export interface TimerTransition {
+  state: TimerState;
+  record: SessionRecord | null; // the phase that ended, for the session history
+  announcement: TimerAnnouncement | null;
+  entry: TimerEventLogEntry | null; // null when the event changed nothing worth logging
+}
+
+/**
+ * The state before any phase has been started
+ */
+export const createInitialTimerState = (settings: TimerSettings): TimerState => ({
+  mode: "focus",
+  timeRemaining: getModeDuration("focus", settings),
+  isRunning: false,
+  breakActivity: null,
+  completed: false,
+  sessionCount: 0,
+  endsAt: null,
+  currentPhase: null,
+  activeTaskId: null,
+  autoStartAt: null,
+  overtime: false,
+  snoozes: 0,
+});
+
+interface Outcome {
+  state: TimerState;
+  record?: SessionRecord | null;
+  announcement?: TimerAnnouncement | null;
+  logAs?: TimerEvent["type"] | null; // defaults to the event itself; null leaves it out of the log
+}
+
+// Starts a new phase or resumes the one under way
+const run = (state: TimerState, { settings, now }: TimerContext): TimerState => {
+  if (state.isRunning) return state;
+
+  if (!canStartPhase(state, settings.workSchedule, new Date(now))) {
+    return state.autoStartAt !== null ? { ...state, autoStartAt: null } : state;
+  }
+
+  const timeRemaining = state.timeRemaining > 0 ? state.timeRemaining : getModeDuration(state.mode, settings);
+
+  return {
+    ...state,
+    timeRemaining,
+    isRunning: true,
+    completed: false,
+    endsAt: now + timeRemaining * 1000,
+    currentPhase: beginPhase({ ...state, timeRemaining }, now),
+    autoStartAt: null,
+  };
+};
+
+// Ends the phase under way and moves on to the next one
+const endPhase = (state: TimerState, context: TimerContext, outcome: SessionOutcome, silent: boolean): Outcome => {
+  const { settings, now } = context;
+  const record = createSessionRecord(state, outcome, now);
+
+  // Skipping a focus straight away goes to a short break without counting it
+  const counted = state.mode !== "focus" || outcome !== "skipped" ||
+    (record?.actualDuration ?? 0) >= MIN_COUNTED_FOCUS_SECONDS;
+  const next = counted
+    ? getNextPhase(state.mode, state.sessionCount, settings)
+    : { mode: "break" as const, sessionCount: state.sessionCount };
+
+  // Outside working hours phases end quietly and nothing new starts
+  const inWorkingHours = isWithinWorkingHours(settings.workSchedule, new Date(now));
+
+  // Time worked on the focus that ended, without pauses or idle time
+  const focusedSeconds = state.mode === "focus" && record ? record.actualDuration + record.overtimeDuration : 0;
+
+  const nextState: TimerState = {
+    mode: next.mode,
+    timeRemaining: getNextPhaseDuration(state, next.mode, settings, focusedSeconds, now),
+    isRunning: false,
+    breakActivity: null,
+    completed: true,
+    sessionCount: next.sessionCount,
+    endsAt: null,
+    currentPhase: null,
+    activeTaskId: state.activeTaskId,
+    autoStartAt: null,
+    overtime: false,
+    snoozes: 0,
+  };
+
+  const autoStart = inWorkingHours && shouldAutoStart(next.mode, settings);
+
+  return {
+    // Without a grace period there is nothing to cancel, so start right away
+    state: !autoStart
+      ? nextState
+      : settings.autoStartDelay <= 0
+        ? run(nextState, context)
+        : { ...nextState, autoStartAt: now + settings.autoStartDelay * 1000 },
+    record,
+    announcement: !silent && inWorkingHours ? "phaseComplete" : null,
+  };
+};
+
+// Pauses or marks a running focus phase once the user has gone idle
+const startIdle = (state: TimerState, action: IdleAction, since: number, now: number): TimerState => {
+  const phase = state.currentPhase;
+  if (action === "off" || state.mode !== "focus" || !state.isRunning || !phase) return state;
+  if (phase.idlePeriods?.some((period) => period.endedAt === null)) return state;
+
+  // Idle time can not reach back past the last start or resume
+  const lastResume = Math.max(phase.startedAt, ...phase.pauses.map((pause) => pause.endedAt ?? 0));
+  const idleSince = Math.min(now, Math.max(since, lastResume));
+
+  // Overtime has no pause, so it is only marked
+  if (action === "pause" && !state.overtime) {
+    return {
+      ...state,
+      isRunning: false,
+      timeRemaining: getRemainingSeconds(state, idleSince),
+      endsAt: null,
+      currentPhase: pausePhase(beginIdle(phase, idleSince, true), idleSince),
+    };
+  }
+
+  return { ...state, currentPhase: beginIdle(phase, idleSince, false) };
+};
+
+// Applies the answer to "I was away — keep or discard this time?"
+const resolveIdle = (state: TimerState, keep: boolean): TimerState => {
+  const phase = state.currentPhase;
+  const pending = getPendingIdle(phase);
+  if (!phase || !pending) return state;
+
+  const currentPhase = resolveLastIdle(phase, keep);
+  const lastPause = phase.pauses[phase.pauses.length - 1];
+
+  // Keeping time the timer was paused for carries on as if it never stopped
+  if (keep && pending.paused && !state.isRunning && lastPause?.endedAt === null && lastPause.startedAt === pending.startedAt) {
+    return {
+      ...state,
+      isRunning: true,
+      completed: false,
+      endsAt: pending.startedAt + state.timeRemaining * 1000,
+      currentPhase: { ...currentPhase, pauses: currentPhase.pauses.slice(0, -1) },
+    };
+  }
+
+  return { ...state, currentPhase };
+};
+
+const reduce = (state: TimerState, event: TimerEvent, context: TimerContext): Outcome => {
+  const { settings, now } = context;
+
+  switch (event.type) {
+    case "START":
+      // Starting a phase that is already under way resumes it
+      if (state.currentPhase) return reduce(state, { type: "RESUME" }, context);
+      return { state: run(state, context) };
+
+    case "RESUME":
+      if (!state.currentPhase) return { state };
+      return { state: run(state, context) };
+
+    case "PAUSE":
+      // Overtime has no pause; the user ends it by taking a break
+      if (!state.isRunning || state.overtime) return { state };
+
+      // Freeze the remaining time so it no longer depends on the clock
+      return {
+        state: {
+          ...state,
+          isRunning: false,
+          timeRemaining: getRemainingSeconds(state, now),
+          endsAt: null,
+          currentPhase: pausePhase(state.currentPhase, now),
+        },
+      };
+
+    case "TICK": {
+      // A pending phase starts once its grace period is over
+      if (!state.isRunning) {
+        if (state.autoStartAt === null || state.autoStartAt > now) return { state };
+        return { state: run(state, context), logAs: "START" };
+      }
+
+      // Overtime counts up from endsAt, so there is nothing left to tick
+      if (state.overtime) return { state };
+
+      const remaining = getRemainingSeconds(state, now);
+      if (remaining > 0) {
+        // Refreshing the display is not worth a log entry
+        if (remaining === state.timeRemaining) return { state };
+        return { state: { ...state, timeRemaining: remaining, completed: false }, logAs: null };
+      }
+
+      // In flow mode focus keeps going until the user takes a break
+      if (state.mode === "focus" && settings.overtimeEnabled) {
+        return {
+          state: { ...state, timeRemaining: 0, overtime: true },
+          announcement: isWithinWorkingHours(settings.workSchedule, new Date(now)) ? "overtime" : null,
+        };
+      }
+
+      return { ...endPhase(state, context, "completed", false), logAs: "COMPLETE" };
+    }
+
+    case "COMPLETE":
+      // Only overtime is ended by hand; everything else completes on a tick
+      if (!state.overtime) return { state };
+      return endPhase(state, context, "completed", true);
+
+    case "SKIP":
+      // A focus that has not begun has nothing to skip
+      if (state.mode === "focus" && !state.currentPhase) return { state };
+      return endPhase(state, context, "skipped", true);
+
+    case "RESET": {
+      const mode = event.mode ?? state.mode;
+
+      // Resetting a phase keeps the position in the current set
+      return {
+        state: {
+          ...createInitialTimerState(settings),
+          mode,
+          timeRemaining: getModeDuration(mode, settings),
+          sessionCount: state.sessionCount,
+          activeTaskId: state.activeTaskId,
+        },
+        record: createSessionRecord(state, "reset", now),
+      };
+    }
+
+    case "EXTEND": {
+      if (!(event.seconds > 0) || !state.currentPhase || getExtensionsLeft(state, settings) <= 0) return { state };
+
+      return {
+        state: {
+          ...state,
+          timeRemaining: getRemainingSeconds(state, now) + event.seconds,
+          endsAt: state.isRunning && state.endsAt ? state.endsAt + event.seconds * 1000 : state.endsAt,
+          currentPhase: extendPhase(state.currentPhase, event.seconds, now),
+        },
+      };
+    }
+
+    case "SNOOZE":
+      // Puts off a phase that has not begun; it then starts by itself. Each
+      // snooze uses up one of the phase's extensions.
+      if (!(event.seconds > 0) || state.isRunning || state.currentPhase || getSnoozesLeft(state, settings) <= 0) {
+        return { state };
+      }
+      return { state: { ...state, autoStartAt: now + event.seconds * 1000, snoozes: (state.snoozes ?? 0) + 1 } };
+
+    case "SET_DURATION":
+      // Only the length of the phase shown, while it is not running
+      if (!(event.seconds > 0) || state.isRunning || state.mode !== event.mode) return { state };
+      return { state: { ...state, timeRemaining: event.seconds }, logAs: null };
+
+    case "IDLE_START":
+      return { state: startIdle(state, settings.idleAction, event.since, now) };
+
+    case "IDLE_END": {
+      // Closes the idle period when the user is back, so they can keep or discard it
+      const phase = state.currentPhase;
+      if (!phase?.idlePeriods?.some((period) => period.endedAt === null)) return { state };
+      return { state: { ...state, currentPhase: endIdle(phase, now) } };
+    }
+
+    case "RESOLVE_IDLE":
+      return { state: resolveIdle(state, event.keep) };
+
+    case "LABEL_PAUSE":
+      if (!state.currentPhase) return { state };
+      return { state: { ...state, currentPhase: labelLastPause(state.currentPhase, event.reason, event.note) }, logAs: null };
+
+    case "SELECT_ACTIVITY": {
+      const withActivity: TimerState = {
+        ...state,
+        breakActivity: event.activity,
+        currentPhase: state.currentPhase && event.activity
+          ? { ...state.currentPhase, breakActivity: event.activity }
+          : state.currentPhase,
+      };
+
+      // Choosing an activity starts the break right away
+      if (event.activity && isBreakMode(state.mode) && !state.isRunning) {
+        const started = reduce(withActivity, { type: "START" }, context).state;
+        return { state: started, logAs: started.isRunning ? "START" : null };
+      }
+      return { state: withActivity, logAs: null };
+    }
+
+    case "SELECT_TASK":
+      return {
+        state: {
+          ...state,
+          activeTaskId: event.taskId,
+          // A focus session already under way counts against the new task
+          currentPhase: state.currentPhase && state.mode === "focus"
+            ? { ...state.currentPhase, taskId: event.taskId }
+            : state.currentPhase,
+        },
+        logAs: null,
+      };
+
+    case "CANCEL_AUTO_START":
+      if (state.autoStartAt === null) return { state };
+      return { state: { ...state, autoStartAt: null } };
+
+    case "LOG_UNLOCK":
+      // Unlocking a blocked site is logged with the focus, which keeps running
+      if (state.mode !== "focus" || !state.currentPhase || !event.site || !event.reason.trim()) return { state };
+      return { state: { ...state, currentPhase: recordUnlock(state.currentPhase, event.site, event.reason, now) }, logAs: null };
+  }
+};
+
+/**
+ * Applies one event to the timer. Events that do not apply in the current
+ * state return it unchanged.
+ */
+export const transition = (state: TimerState, event: TimerEvent, context: TimerContext): TimerTransition => {
+  const outcome = reduce(state, event, context);
+  const logAs = outcome.logAs === undefined ? event.type : outcome.logAs;
+
+  return {
+    state: outcome.state,
+    record: outcome.record ?? null,
+    announcement: outcome.announcement ?? null,
+    entry: outcome.state !== state && logAs
+      ? { type: logAs, at: context.now, from: state.mode, to: outcome.state.mode, sessionCount: outcome.state.sessionCount }
+      : null,
+  };
+};
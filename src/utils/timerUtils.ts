@@ -1,5 +1,11 @@
 
-import { TimerSettings } from "@/types";
+import { BreakRule, TimerMode, TimerSettings, TimerState } from "@/types";
+import { defaultWorkSchedule } from "./scheduleUtils";
+import { defaultShortcuts } from "./shortcutUtils";
+import { defaultNotificationSettings } from "./notificationUtils";
+import { defaultSoundSettings } from "./soundUtils";
+import { defaultSpeechSettings } from "./speechUtils";
+import { defaultBlockingSettings } from "./blockingUtils";
 
 // Convert minutes to seconds
 export const minutesToSeconds = (minutes: number): number => {
@@ -13,6 +19,104 @@ export const formatTime = (seconds: number): string => {
   return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
 };
 
+// Derive the seconds left from the wall clock while running, so the value is
+// the same in every tab no matter how often it was ticked
+export const getRemainingSeconds = (
+  state: Pick<TimerState, 'isRunning' | 'timeRemaining' | 'endsAt'>,
+  now: number = Date.now()
+): number => {
+  if (!state.isRunning || !state.endsAt) {
+    return state.timeRemaining;
+  }
+  return Math.max(0, Math.ceil((state.endsAt - now) / 1000));
+};
+
+// Seconds counted up since a focus phase ran into overtime
+export const getOvertimeSeconds = (
+  state: Pick<TimerState, 'overtime' | 'endsAt'>,
+  now: number = Date.now()
+): number => {
+  if (!state.overtime || !state.endsAt) return 0;
+  return Math.max(0, Math.floor((now - state.endsAt) / 1000));
+};
+
+// Longest a break can grow after overtime, relative to its configured length
+export const MAX_BREAK_SCALE = 2;
+
+// Stretch a break by the share of extra time spent focusing, in whole minutes
+export const getScaledBreakDuration = (
+  breakSeconds: number,
+  plannedFocusSeconds: number,
+  overtimeSeconds: number
+): number => {
+  if (plannedFocusSeconds <= 0 || overtimeSeconds <= 0) return breakSeconds;
+
+  const scale = Math.min(MAX_BREAK_SCALE, (plannedFocusSeconds + overtimeSeconds) / plannedFocusSeconds);
+  return Math.round((breakSeconds * scale) / 60) * 60;
+};
+
+// Seconds the focus phase is set to run, counting extensions and overtime.
+// Before a focus phase starts this is the configured focus duration.
+export const getFocusLength = (
+  state: Pick<TimerState, 'mode' | 'currentPhase' | 'overtime' | 'endsAt'>,
+  settings: TimerSettings,
+  now: number = Date.now()
+): number => {
+  const phase = state.mode === 'focus' ? state.currentPhase : null;
+  if (!phase) return minutesToSeconds(settings.focusDuration);
+
+  const extended = (phase.extensions || []).reduce((total, extension) => total + extension.seconds, 0);
+  return phase.plannedDuration + extended + getOvertimeSeconds(state, now);
+};
+
+// Short break earned by a focus phase of the given length under the
+// proportional rule, in whole minutes within the rule's limits
+export const getProportionalBreakDuration = (focusSeconds: number, rule: BreakRule): number => {
+  const minutes = Math.round(focusSeconds / 60 / rule.focusMinutesPerBreakMinute);
+  return minutesToSeconds(Math.min(rule.maxMinutes, Math.max(rule.minMinutes, minutes)));
+};
+
+// Length of the phase that follows the one in state, in seconds. Under the
+// proportional rule a short break is earned by the focus actually worked,
+// overtime included, so it is not scaled again.
+export const getNextPhaseDuration = (
+  state: TimerState,
+  nextMode: TimerMode,
+  settings: TimerSettings,
+  focusedSeconds: number,
+  now: number = Date.now()
+): number => {
+  if (nextMode === 'break' && settings.breakRule.type === 'proportional') {
+    return getProportionalBreakDuration(focusedSeconds, settings.breakRule);
+  }
+
+  const baseDuration = getModeDuration(nextMode, settings);
+  return settings.scaleBreakWithFocus && state.currentPhase
+    ? getScaledBreakDuration(baseDuration, state.currentPhase.plannedDuration, getOvertimeSeconds(state, now))
+    : baseDuration;
+};
+
+// Minutes added by the quick extend action, in focus and in a break
+export const FOCUS_EXTENSION_MINUTES = 5;
+export const BREAK_EXTENSION_MINUTES = 1;
+
+// How many more times the next phase can be snoozed before it begins. Snoozes
+// and extensions share the maxExtensionsPerPhase allowance.
+export const getSnoozesLeft = (state: Pick<TimerState, 'snoozes'>, settings: TimerSettings): number => {
+  return Math.max(0, settings.maxExtensionsPerPhase - (state.snoozes ?? 0));
+};
+
+// How many more times the phase under way can be extended. Phases that have
+// not started yet are adjusted with the duration controls instead, and
+// overtime already runs open-ended.
+export const getExtensionsLeft = (
+  state: Pick<TimerState, 'currentPhase' | 'overtime' | 'snoozes'>,
+  settings: TimerSettings
+): number => {
+  if (!state.currentPhase || state.overtime) return 0;
+  return Math.max(0, getSnoozesLeft(state, settings) - (state.currentPhase.extensions?.length ?? 0));
+};
+
 // Get percentage of time remaining for progress display
 export const getTimePercentage = (
   timeRemaining: number,
@@ -21,10 +125,79 @@ export const getTimePercentage = (
   return (timeRemaining / totalDuration) * 100;
 };
 
+// Version of the settings schema; bump it and add a migration in
+// settingsSchema.ts whenever stored settings change shape
+export const SETTINGS_VERSION = 2;
+
 // Default timer settings
 export const defaultTimerSettings: TimerSettings = {
+  version: SETTINGS_VERSION,
   focusDuration: 25, // 25 minutes for focus time
   breakDuration: 5, // 5 minutes for break time
+  breakRule: { type: 'fixed', focusMinutesPerBreakMinute: 5, minMinutes: 3, maxMinutes: 15 },
+  longBreakDuration: 15, // 15 minutes for the break after a full set
+  sessionsBeforeLongBreak: 4, // classic Pomodoro set
+  autoStartBreaks: true, // the break card promises an automatic start
+  autoStartFocus: false,
+  autoStartDelay: 10, // seconds to cancel before the break starts
+  presets: [],
+  overtimeEnabled: false,
+  scaleBreakWithFocus: true,
+  dailyGoalType: 'minutes',
+  dailyGoalTarget: 120, // four classic sessions
+  goalStreak: { count: 0, lastMetDate: null },
+  maxExtensionsPerPhase: 3,
+  workSchedule: defaultWorkSchedule,
+  idleAction: 'pause',
+  idleThreshold: 5,
+  shortcuts: defaultShortcuts,
+  notifications: defaultNotificationSettings,
+  sounds: defaultSoundSettings,
+  speech: defaultSpeechSettings,
+  blocking: defaultBlockingSettings,
+};
+
+// Both short and long breaks share the break UI and sounds
+export const isBreakMode = (mode: TimerMode): boolean => {
+  return mode === 'break' || mode === 'longBreak';
+};
+
+// Whether a phase should start without the user pressing Start
+export const shouldAutoStart = (mode: TimerMode, settings: TimerSettings): boolean => {
+  return isBreakMode(mode) ? settings.autoStartBreaks : settings.autoStartFocus;
+};
+
+// Get the configured length of a phase in seconds
+export const getModeDuration = (mode: TimerMode, settings: TimerSettings): number => {
+  switch (mode) {
+    case 'break':
+      return minutesToSeconds(settings.breakDuration);
+    case 'longBreak':
+      return minutesToSeconds(settings.longBreakDuration);
+    default:
+      return minutesToSeconds(settings.focusDuration);
+  }
+};
+
+// Work out which phase follows the current one and the updated set counter
+export const getNextPhase = (
+  currentMode: TimerMode,
+  sessionCount: number,
+  settings: TimerSettings
+): { mode: TimerMode; sessionCount: number } => {
+  if (currentMode !== 'focus') {
+    // A long break closes the set, a short break continues it
+    return {
+      mode: 'focus',
+      sessionCount: currentMode === 'longBreak' ? 0 : sessionCount,
+    };
+  }
+
+  const completedSessions = sessionCount + 1;
+  return {
+    mode: completedSessions >= settings.sessionsBeforeLongBreak ? 'longBreak' : 'break',
+    sessionCount: completedSessions,
+  };
 };
 
 // Generate shuffled pairs for memory game
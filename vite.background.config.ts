@@ -0,0 +1,26 @@
+import { defineConfig } from "vite";
+import path from "path";
+
+// The extension's service worker. It is built on its own, after the app, as
+// a classic script in a single file: workers registered without
+// "type": "module" can not load shared chunks.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    emptyOutDir: false,
+    rollupOptions: {
+      input: {
+        background: "./src/background.ts",
+      },
+      output: {
+        format: "iife",
+        entryFileNames: "[name].js",
+      },
+    },
+  },
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+});